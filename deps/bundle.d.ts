@@ -100,6 +100,7 @@ export declare namespace ast {
 
   export interface Node {
     type: string;
+    comments?: Array<Comment>;
     leadingComments?: Array<Comment>;
     trailingComments?: Array<Comment>;
     loc?: SourceLocation;
@@ -114,7 +115,11 @@ export declare namespace ast {
   }
 
   export interface Comment {
+    type: 'Line' | 'Block' | 'CommentLine' | 'CommentBlock';
     value: string;
+    leading?: boolean;
+    trailing?: boolean;
+    loc?: SourceLocation;
   }
 
   export interface Position {
@@ -342,10 +347,15 @@ export declare namespace ast {
     children: (Literal | JSXExpressionContainer | JSXElement)[]
   }
 
+  export interface JSXSpreadAttribute extends Node {
+    type: 'JSXSpreadAttribute';
+    argument: Expression;
+  }
+
   export interface JSXOpeningElement extends Node {
     type: 'JSXOpeningElement';
     name: JSXIdentifier;
-    attributes: JSXAttribute[];
+    attributes: Array<JSXAttribute | JSXSpreadAttribute>;
     selfClosing: boolean;
   }
 
@@ -631,14 +641,15 @@ export declare namespace ast {
     decorators: Decorator[];
   }
 
-  export interface ObjectProperty {
+  export interface ObjectProperty extends Node {
     type: 'ObjectProperty';
     key: Literal | Identifier | Expression;
     value: Expression | Pattern;
+    shorthand: boolean;
     computed: boolean;
   }
 
-  export interface SpreadProperty {
+  export interface SpreadProperty extends Node {
     type: 'SpreadProperty';
     argument: Expression;
   }
@@ -747,7 +758,8 @@ export declare namespace ast {
     node: Node;
     isGlobal: boolean;
     depth: number;
-    parent: NodePath;
+    parent: Scope;
+    didScan: boolean;
     bindings: any; // TODO
     type: any; // TODO
   }
@@ -965,6 +977,8 @@ export declare namespace ast {
   };
 
   export var builders: {
+    commentBlock: (value: string, leading?: boolean, trailing?: boolean) => Comment;
+    commentLine: (value: string, leading?: boolean, trailing?: boolean) => Comment;
     file: (program: Program) => File;
     program: (statements: Node[]) => Program;
     jsxElement: (
@@ -1101,5 +1115,5 @@ export declare namespace ast {
 export declare namespace recast {
   function parse(code: string, args?: Object): ast.Node;
   function visit(node: ast.Node | ast.NodePath, methods: Object): void;
-  function print(node: ast.Node): { code: string };
+  function print(node: ast.Node, options?: Object): { code: string, map?: any };
 }
@@ -0,0 +1,50 @@
+import { JsNode } from './JsNode';
+import { babylonParser } from './Babylon';
+import * as js from './Js';
+
+describe('Babylon', () => {
+  it('parse a reducer with object spread', () => {
+    const code = [
+      'import { ADD_TODO } from "./actions";',
+      '',
+      'export default function todos(state = { items: [] }, action) {',
+      '  switch (action.type) {',
+      '    case ADD_TODO:',
+      '      return { ...state, items: [...state.items, action.todo] };',
+      '    default:',
+      '      return state;',
+      '  }',
+      '}'
+    ].join('\n');
+    const node = JsNode.fromModuleCode(code, { parser: babylonParser });
+    const spread = node.findFirstChildOfType(js.SpreadProperty);
+    expect(spread.argument().format()).toBe('state');
+    expect(node.findChildrenOfType(js.SpreadElement).map(s => s.argument().format()))
+      .toEqual(['state.items']);
+    expect(node.format()).toBe(code);
+    spread.argument().replace(JsNode.fromExpressionStatement('initialState'));
+    expect(node.format()).toContain('return { ...initialState, items');
+  });
+
+  it('destructured props with rest properties', () => {
+    const node = JsNode.fromModuleCode('const Foo = ({ a, b: c, ...rest }) => null;', {
+      parser: babylonParser
+    });
+    const pattern = node.findFirstChildOfType(js.ObjectPattern);
+    expect(pattern.keys()).toEqual(['a', 'b']);
+    expect(pattern.names()).toEqual(['a', 'c', 'rest']);
+    expect(pattern.findProperty('b')).toBeInstanceOf(js.ObjectProperty);
+    pattern.setDefault('a', 1).setDefault('b', 2);
+    expect(node.format()).toBe('const Foo = ({ a = 1, b: c = 2, ...rest }) => null;');
+    pattern.addKey('a').addKey('d', { defaultValue: 'x' }).removeDefault('b');
+    expect(pattern.keys()).toEqual(['a', 'b', 'd']);
+    expect(pattern.formatStripped()).toBe('{a = 1,b: c,d = "x",...rest}');
+  });
+
+  it('parse JSX', () => {
+    const node = JsNode.fromModuleCode('const el = <Foo {...props} bar="1" />;', {
+      parser: babylonParser
+    });
+    expect(node.findFirstChildOfType(js.JSXSpreadAttribute).argument().format()).toBe('props');
+  });
+});
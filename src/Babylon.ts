@@ -0,0 +1,23 @@
+/**
+ * Parser configuration for babylon, which parses syntax that esprima does not
+ * support, like object rest and spread properties ("{ ...state }"):
+ *
+ *   JsNode.fromModuleCode(code, { parser: babylonParser });
+ *
+ * Note that babylon creates Babel AST nodes for some constructs, e.g.
+ * ObjectProperty and StringLiteral instead of Property and Literal.
+ */
+
+/**
+ * The babylon plugins enabled by babylonParser.
+ */
+export const babylonPlugins = ['jsx', 'objectRestSpread'];
+
+export const babylonParser = {
+  parse(code: string) {
+    return require('babylon').parse(code, {
+      sourceType: 'module',
+      plugins: babylonPlugins
+    });
+  }
+};
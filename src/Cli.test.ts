@@ -0,0 +1,112 @@
+import { parseArguments, getTransformations, main, CliEnvironment } from './Cli';
+import { MemoryFileSystem } from './FileSystem';
+
+function createEnvironment(modules: { [name: string]: any }) {
+  const output = { stdout: '', stderr: '' };
+  const env: CliEnvironment = {
+    stdout: text => output.stdout += text,
+    stderr: text => output.stderr += text,
+    fileSystem: new MemoryFileSystem({
+      'src/a.js': 'foo();\nbar();\n',
+      'src/b.js': 'bar();\n'
+    }),
+    loadModule: name => {
+      if (!modules.hasOwnProperty(name)) {
+        throw new Error(`Cannot find module '${name}'`);
+      }
+      return modules[name];
+    }
+  };
+  return { env, output };
+}
+
+const renameFoo = (file, params) => {
+  file.root.rewrite('foo()', `${params.name || 'baz'}()`);
+};
+
+describe('Cli', () => {
+  it('parse arguments', () => {
+    const options = parseArguments([
+      '-t', './a.js', '--transform=./b.js', '--dry-run', '--diff', '--parser', 'babylon',
+      '-p', 'name=foo', '--param', 'count=3', '--extensions', 'js,.es6', '--ignore', 'dist', '--ignore=*.min.js', 'src', 'lib/*.js'
+    ]);
+    expect(options).toEqual({
+      transformations: ['./a.js', './b.js'],
+      paths: ['src', 'lib/*.js'],
+      dryRun: true,
+      diff: true,
+      parser: 'babylon',
+      params: { name: 'foo', count: 3 },
+      extensions: ['.js', '.es6'],
+      ignore: ['dist', '*.min.js'],
+      help: false
+    });
+    expect(parseArguments(['--help']).help).toBe(true);
+  });
+
+  it('invalid arguments', () => {
+    expect(() => parseArguments(['src'])).toThrowError(/No transformation/);
+    expect(() => parseArguments(['-t', 'a.js'])).toThrowError(/No paths/);
+    expect(() => parseArguments(['-t'])).toThrowError(/Missing value for -t/);
+    expect(() => parseArguments(['--foo', 'src'])).toThrowError(/Unknown option --foo/);
+    expect(() => parseArguments(['-t', 'a.js', '-p', 'foo', 'src'])).toThrowError(/Invalid parameter/);
+  });
+
+  it('get transformations', () => {
+    const transformation = { name: 'foo', apply: () => undefined };
+    expect(getTransformations(transformation, 'foo.js')).toEqual([transformation]);
+    expect(getTransformations({ __esModule: true, default: [transformation] }, 'foo.js'))
+      .toEqual([transformation]);
+    expect(getTransformations(renameFoo, 'foo.js')[0].name).toBe('foo.js');
+    expect(() => getTransformations({}, 'foo.js')).toThrowError(/does not export a transformation/);
+  });
+
+  it('run', () => {
+    const { env, output } = createEnvironment({ './rename.js': renameFoo });
+    expect(main(['-t', './rename.js', '-p', 'name=qux', 'src'], env)).toBe(0);
+    expect(env.fileSystem.readFile('src/a.js')).toBe('qux();\nbar();\n');
+    expect(output.stdout).toBe('');
+    expect(output.stderr).toBe('1 changed, 1 unchanged, 0 skipped, 0 errored\n');
+  });
+
+  it('print diff', () => {
+    const { env, output } = createEnvironment({ './rename.js': renameFoo });
+    expect(main(['-t', './rename.js', '--dry-run', '--diff', 'src/*.js'], env)).toBe(0);
+    expect(env.fileSystem.readFile('src/a.js')).toBe('foo();\nbar();\n');
+    expect(output.stdout).toBe([
+      '--- a/src/a.js',
+      '+++ b/src/a.js',
+      '@@ -1,2 +1,2 @@',
+      '-foo();',
+      '+baz();',
+      ' bar();',
+      ''
+    ].join('\n'));
+  });
+
+  it('babylon parser', () => {
+    const renameState = file => {
+      file.root.rewrite('state', 'previous');
+    };
+    const { env } = createEnvironment({ './rename.js': renameState });
+    env.fileSystem.writeFile('src/a.js', 'const a = { ...state, el: <Foo /> };\n');
+    expect(main(['-t', './rename.js', 'src/a.js'], env)).toBe(1);
+    expect(main(['-t', './rename.js', '--parser', 'babylon', 'src/a.js'], env)).toBe(0);
+    expect(env.fileSystem.readFile('src/a.js')).toBe('const a = { ...previous, el: <Foo /> };\n');
+  });
+
+  it('exit codes', () => {
+    const failing = () => {
+      throw new Error('failed');
+    };
+    let { env, output } = createEnvironment({ './failing.js': failing });
+    expect(main(['-t', './failing.js', 'src'], env)).toBe(1);
+    expect(output.stderr).toContain('Error in src/a.js: failed');
+    ({ env, output } = createEnvironment({}));
+    expect(main(['-t', './missing.js', 'src'], env)).toBe(2);
+    expect(output.stderr).toContain('Cannot find module');
+    expect(main(['src'], env)).toBe(2);
+    expect(main(['--help'], env)).toBe(0);
+    expect(output.stdout).toContain('Usage: transformabit');
+  });
+});
@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for applying transformations to files:
+ *
+ *   transformabit -t ./transformations/rename.js --diff src
+ *
+ * A transformation module exports a Transformation (either as the module
+ * itself or as "default"), an array of transformations, or a function that
+ * is used as the apply() method of a transformation.
+ *
+ * Exits with 1 if any file could not be transformed and with 2 on invalid
+ * arguments or modules.
+ */
+
+import { Runner, Transformation, TransformationParams } from './Runner';
+import { FileSystem, NodeFileSystem } from './FileSystem';
+import { babylonParser } from './Babylon';
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+export type CliOptions = {
+  transformations: string[],
+  paths: string[],
+  dryRun: boolean,
+  diff: boolean,
+  parser?: string,
+  params: TransformationParams,
+  extensions?: string[],
+  ignore?: string[],
+  help: boolean
+};
+
+export type CliEnvironment = {
+  stdout: (text: string) => void,
+  stderr: (text: string) => void,
+  fileSystem: FileSystem,
+  /**
+   * Loads transformation and parser modules. Relative paths are resolved
+   * against the working directory.
+   */
+  loadModule: (name: string) => any
+};
+
+export const usage = [
+  'Usage: transformabit [options] <paths...>',
+  '',
+  'Applies transformations to all files matching the given paths, directories',
+  'or globs.',
+  '',
+  'Options:',
+  '  -t, --transform <module>   transformation module to apply (repeatable)',
+  '  -d, --dry-run              do not write any files',
+  '      --diff                 print a unified diff for every changed file',
+  '      --parser <module>      parser module with a parse() function, as used',
+  '                             by recast (default: esprima); "babylon" enables',
+  '                             the jsx and objectRestSpread plugins',
+  '  -p, --param <name=value>   parameter for the transformations (repeatable);',
+  '                             values are parsed as JSON if possible',
+  '      --extensions <list>    extensions of files to transform in directories',
+  '                             (default: .js,.jsx)',
+  '      --ignore <pattern>     files and directories to skip (repeatable);',
+  '                             node_modules and dot files are always skipped',
+  '  -h, --help                 show this help'
+].join('\n');
+
+/**
+ * Parses the command-line arguments (without the node executable and script).
+ * Throws a UsageError if they are invalid.
+ */
+export function parseArguments(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    transformations: [],
+    paths: [],
+    dryRun: false,
+    diff: false,
+    params: {},
+    help: false
+  };
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i];
+    let value: string;
+    const equals = arg.indexOf('=');
+    if (arg.indexOf('--') === 0 && equals > 0) {
+      value = arg.slice(equals + 1);
+      arg = arg.slice(0, equals);
+    }
+    const getValue = () => {
+      if (value === undefined) {
+        if (i + 1 >= argv.length) {
+          throw new UsageError(`Missing value for ${arg}`);
+        }
+        value = argv[++i];
+      }
+      return value;
+    };
+    switch (arg) {
+      case '-t':
+      case '--transform':
+        options.transformations.push(getValue());
+        break;
+      case '-d':
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--diff':
+        options.diff = true;
+        break;
+      case '--parser':
+        options.parser = getValue();
+        break;
+      case '-p':
+      case '--param':
+        addParam(options.params, getValue());
+        break;
+      case '--extensions':
+        options.extensions = getValue().split(',').map(e => e.charAt(0) === '.' ? e : '.' + e);
+        break;
+      case '--ignore':
+        options.ignore = (options.ignore || []).concat(getValue());
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if (arg.charAt(0) === '-' && arg !== '-') {
+          throw new UsageError(`Unknown option ${arg}`);
+        }
+        options.paths.push(arg);
+    }
+  }
+  if (!options.help) {
+    if (options.transformations.length === 0) {
+      throw new UsageError('No transformation given');
+    }
+    if (options.paths.length === 0) {
+      throw new UsageError('No paths given');
+    }
+  }
+  return options;
+}
+
+function addParam(params: TransformationParams, param: string) {
+  const equals = param.indexOf('=');
+  if (equals <= 0) {
+    throw new UsageError(`Invalid parameter "${param}"; expected name=value`);
+  }
+  const value = param.slice(equals + 1);
+  try {
+    params[param.slice(0, equals)] = JSON.parse(value);
+  } catch (e) {
+    params[param.slice(0, equals)] = value;
+  }
+}
+
+/**
+ * Returns the transformations exported by a module.
+ */
+export function getTransformations(exported: any, moduleName: string): Transformation[] {
+  if (exported && exported.__esModule && exported.default) {
+    exported = exported.default;
+  }
+  const transformations = Array.isArray(exported) ? exported : [exported];
+  return transformations.map(transformation => {
+    if (typeof transformation === 'function') {
+      return { name: moduleName, apply: transformation };
+    }
+    if (!transformation || typeof transformation.apply !== 'function') {
+      throw new UsageError(`Module ${moduleName} does not export a transformation`);
+    }
+    return transformation;
+  });
+}
+
+/**
+ * Returns the parse args for a parser name. "babylon" uses babylonParser, so
+ * that JSX and object spread can be parsed, other names are loaded as modules.
+ */
+function getParserArgs(parser: string, env: CliEnvironment): Object {
+  if (!parser || parser === 'esprima') {
+    return;
+  }
+  return { parser: parser === 'babylon' ? babylonParser : env.loadModule(parser) };
+}
+
+/**
+ * Runs the CLI and returns the exit code.
+ */
+export function main(argv: string[], env: CliEnvironment = createEnvironment()): number {
+  try {
+    const options = parseArguments(argv);
+    if (options.help) {
+      env.stdout(usage + '\n');
+      return 0;
+    }
+    const transformations = options.transformations
+      .map(name => getTransformations(env.loadModule(name), name))
+      .reduce((all, list) => all.concat(list), []);
+    const runner = new Runner(transformations, {
+      dryRun: options.dryRun,
+      params: options.params,
+      parserArgs: getParserArgs(options.parser, env),
+      extensions: options.extensions,
+      ignore: options.ignore,
+      fileSystem: env.fileSystem
+    });
+    const report = runner.run(options.paths);
+    if (options.diff) {
+      report.changed().forEach(result => env.stdout(result.file.diff({
+        oldFileName: `a/${result.fileName}`,
+        newFileName: `b/${result.fileName}`
+      })));
+    }
+    env.stderr(report.summary() + '\n');
+    return report.hasErrors() ? 1 : 0;
+  } catch (e) {
+    // The runner reports errors in files, so anything thrown here is caused by
+    // invalid arguments or modules
+    env.stderr(`${e.message}\nRun with --help for usage.\n`);
+    return 2;
+  }
+}
+
+function createEnvironment(): CliEnvironment {
+  const path = require('path');
+  return {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    fileSystem: new NodeFileSystem(),
+    loadModule: name => require(/^\.{0,2}\//.test(name) ? path.resolve(name) : name)
+  };
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
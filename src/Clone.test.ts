@@ -0,0 +1,37 @@
+import { cloneNode } from './Clone';
+import { JsNode } from './JsNode';
+import { ast } from '../deps/bundle';
+
+function collectObjects(value: any, objects: Object[] = []): Object[] {
+  if (value && typeof value === 'object' && objects.indexOf(value) < 0) {
+    objects.push(value);
+    Object.keys(value)
+      .filter(key => key !== 'loc')
+      .forEach(key => collectObjects(value[key], objects));
+  }
+  return objects;
+}
+
+describe('Clone', () => {
+  it('shares no objects', () => {
+    const node = JsNode.fromCode('foo({ bar: [1, /a/g] });').first().node;
+    const copy = cloneNode(node);
+    const objects = collectObjects(node);
+    expect(collectObjects(copy).filter(o => objects.indexOf(o) >= 0).length).toBe(0);
+  });
+
+  it('locations', () => {
+    const node = JsNode.fromCode('foo(1);').first().node;
+    expect(cloneNode(node).loc).toBeUndefined();
+    const copy = cloneNode(node, { keepLocations: true });
+    expect(copy.loc.start).toEqual(node.loc.start);
+    expect(copy.loc.start).not.toBe(node.loc.start);
+    expect((<any>copy).original).toBe((<any>node).original);
+  });
+
+  it('primitives', () => {
+    expect(cloneNode(null)).toBe(null);
+    expect(cloneNode('foo')).toBe('foo');
+    expect(cloneNode([ast.builders.identifier('foo')])[0].name).toBe('foo');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Deep copies of AST nodes.
+ */
+
+import { ast } from '../deps/bundle';
+import { isNode } from './Equality';
+
+export type CloneOptions = {
+  /**
+   * Keeps the source locations of the copied nodes, so that recast can reuse
+   * their original formatting when printing the copy. Defaults to false, in
+   * which case the copy is printed like a newly built node.
+   */
+  keepLocations?: boolean
+};
+
+/**
+ * Returns a deep copy of a node (or any value containing nodes). Nodes, lists
+ * plain objects and regular expressions in literals are copied, so the copy
+ * does not share any of them with the original.
+ */
+export function cloneNode<T>(value: T, options: CloneOptions = {}): T {
+  return cloneValue(value, options);
+}
+
+function cloneValue(value: any, options: CloneOptions): any {
+  if (value instanceof Array) {
+    return value.map(v => cloneValue(v, options));
+  }
+  if (value instanceof RegExp) {
+    return new RegExp(value.source, value.flags);
+  }
+  if (!value || typeof value !== 'object' || !(isNode(value) || isPlainObject(value))) {
+    return value;
+  }
+  // Parsers may create nodes from classes
+  const copy = Object.create(Object.getPrototypeOf(value));
+  Object.keys(value).forEach(key => {
+    if (key === 'loc') {
+      if (options.keepLocations) {
+        copy[key] = cloneLocation(value[key]);
+      }
+    } else {
+      copy[key] = cloneValue(value[key], options);
+    }
+  });
+  if (options.keepLocations && value.original) {
+    // Recast compares nodes to their original to find out what needs to be
+    // reprinted
+    Object.defineProperty(copy, 'original', {
+      value: value.original,
+      configurable: false,
+      enumerable: false,
+      writable: true
+    });
+  }
+  return copy;
+}
+
+/**
+ * Copies the positions, but keeps referring to the same source lines, which
+ * are immutable.
+ */
+function cloneLocation(loc: ast.SourceLocation): ast.SourceLocation {
+  if (!loc) {
+    return loc;
+  }
+  const copy = <ast.SourceLocation>{};
+  Object.keys(loc).forEach(key => {
+    const v = loc[key];
+    copy[key] = (key === 'start' || key === 'end') && v ? { line: v.line, column: v.column } : v;
+  });
+  return copy;
+}
+
+function isPlainObject(value: Object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,78 @@
+import {
+  parseJsDoc, createComments, copyComments, isJsDocComment, getLeadingComments, getTrailingComments
+} from './Comments';
+import { JsNode } from './JsNode';
+import { ast } from '../deps/bundle';
+
+const b = ast.builders;
+
+describe('Comments', () => {
+  it('leading and trailing', () => {
+    const node = JsNode.fromCode('// foo\nfoo(); // bar').first().node;
+    expect(getLeadingComments(node).map(c => c.value)).toEqual([' foo']);
+    expect(getTrailingComments(node).map(c => c.value)).toEqual([' bar']);
+    expect(getLeadingComments(b.identifier('foo'))).toEqual([]);
+  });
+
+  it('create', () => {
+    expect(createComments('TODO').map(c => c.value)).toEqual([' TODO']);
+    expect(() => createComments('a\nb')).toThrowError(/line breaks/);
+    expect(() => createComments(' a */ b ', { block: true })).toThrowError(/can not contain/);
+    expect(createComments('a\nb', { block: true })[0].value).toBe('a\nb');
+    const block = createComments('foo', { block: true, leading: false })[0];
+    expect(block.value).toBe(' foo ');
+    expect(block.leading).toBe(false);
+    expect(block.trailing).toBe(true);
+  });
+
+  it('copy', () => {
+    const source = b.identifier('foo');
+    source.comments = [
+      b.commentLine(' before', true, false),
+      b.commentLine(' inside', false, false),
+      b.commentBlock(' after ', false, true)
+    ];
+    const target = b.identifier('bar');
+    copyComments(source, target);
+    expect(target.comments.map(c => c.value)).toEqual([' before', ' after ']);
+    expect(target.comments[0]).not.toBe(source.comments[0]);
+    expect(target.comments[1].type).toBe('CommentBlock');
+  });
+
+  it('JSDoc comments', () => {
+    expect(isJsDocComment(b.commentBlock('* foo '))).toBe(true);
+    expect(isJsDocComment(b.commentBlock(' foo '))).toBe(false);
+    expect(isJsDocComment(b.commentBlock('*** foo '))).toBe(false);
+    expect(isJsDocComment(b.commentLine('* foo '))).toBe(false);
+  });
+
+  it('parse JSDoc', () => {
+    const doc = parseJsDoc([
+      '*',
+      ' * Adds two numbers.',
+      ' *',
+      ' * Really.',
+      ' * @param {number} a - The first',
+      ' *   number.',
+      ' * @param {{x: number}} [b=42] The second',
+      ' * @returns {number}',
+      ' * @deprecated',
+      ' '
+    ].join('\n'));
+    expect(doc.description).toBe('Adds two numbers.\n\nReally.');
+    expect(doc.tags).toEqual([
+      { tag: 'param', type: 'number', name: 'a', description: 'The first\n  number.' },
+      {
+        tag: 'param', type: '{x: number}', name: 'b', optional: true, defaultValue: '42',
+        description: 'The second'
+      },
+      { tag: 'returns', type: 'number', description: '' },
+      { tag: 'deprecated', description: '' }
+    ]);
+  });
+
+  it('parse single line JSDoc', () => {
+    expect(parseJsDoc('* Foo. @type {string} ')).toEqual({ description: 'Foo. @type {string}', tags: [] });
+    expect(parseJsDoc('* @type {string} ').tags).toEqual([{ tag: 'type', type: 'string', description: '' }]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Comments attached to AST nodes. Recast keeps them in node.comments and marks
+ * each one as leading (before the node), trailing (after the node) or neither
+ * (e.g. a comment inside an empty block).
+ */
+
+import { ast, recast } from '../deps/bundle';
+
+const b = ast.builders;
+
+export type CommentOptions = {
+  /**
+   * Adds the comment before the node. Defaults to true; if false, the comment
+   * is added after the node.
+   */
+  leading?: boolean,
+  /**
+   * Adds a block comment instead of a line comment. Defaults to false.
+   */
+  block?: boolean
+};
+
+export type JsDocTag = {
+  /**
+   * Name of the tag without "@", e.g. "param".
+   */
+  tag: string,
+  /**
+   * Type expression without the braces, e.g. "string" for "{string}".
+   */
+  type?: string,
+  /**
+   * Name of the documented parameter or property.
+   */
+  name?: string,
+  /**
+   * True if the name was written in brackets, e.g. "[foo=42]".
+   */
+  optional?: boolean,
+  defaultValue?: string,
+  description: string
+};
+
+export type JsDoc = {
+  description: string,
+  tags: JsDocTag[]
+};
+
+/**
+ * Tags that document a name after the type.
+ */
+const namedTags = ['param', 'arg', 'argument', 'property', 'prop', 'typedef', 'callback'];
+
+export function isBlockComment(comment: ast.Comment): boolean {
+  return comment.type === 'Block' || comment.type === 'CommentBlock';
+}
+
+/**
+ * Returns true for block comments starting with "/**".
+ */
+export function isJsDocComment(comment: ast.Comment): boolean {
+  return isBlockComment(comment) && /^\*(?!\*)/.test(comment.value);
+}
+
+export function getLeadingComments(node: ast.Node): ast.Comment[] {
+  return (node.comments || []).filter(comment => comment.leading);
+}
+
+export function getTrailingComments(node: ast.Node): ast.Comment[] {
+  return (node.comments || []).filter(comment => comment.trailing);
+}
+
+/**
+ * Creates a comment for the text. Throws if the text would end the comment
+ * early, i.e. if it contains "*\/" in block comments or a line break in line
+ * comments.
+ */
+export function createComments(text: string, options: CommentOptions = {}): ast.Comment[] {
+  const leading = options.leading !== false;
+  let comment: ast.Comment;
+  if (options.block) {
+    if (text.indexOf('*/') >= 0) {
+      throw new Error('Block comments can not contain "*/"');
+    }
+    const value = text.indexOf('\n') >= 0 ? text : pad(text, ' ');
+    comment = leading ? b.commentBlock(value, true, false) : parseTrailingComment(`/*${value}*/`);
+  } else {
+    if (/[\r\n]/.test(text)) {
+      throw new Error('Line comments can not contain line breaks');
+    }
+    const value = pad(text, '');
+    comment = leading ? b.commentLine(value, true, false) : parseTrailingComment(`//${value}`);
+  }
+  return [comment];
+}
+
+/**
+ * Recast separates trailing comments from the node by the whitespace found in
+ * the source, so comments that were not parsed would directly follow the
+ * node, e.g. "foo();// bar".
+ */
+function parseTrailingComment(source: string): ast.Comment {
+  return recast.parse(`x; ${source}`).program.body[0].comments[0];
+}
+
+/**
+ * Adds comments before or after the node. Leading comments are added after
+ * existing leading comments, i.e. directly before the node.
+ */
+export function addComments(node: ast.Node, comments: ast.Comment[]) {
+  node.comments = (node.comments || []).concat(comments);
+}
+
+/**
+ * Removes all comments from the node (but not from its descendants).
+ */
+export function removeComments(node: ast.Node) {
+  delete node.comments;
+}
+
+/**
+ * Copies the leading and trailing comments of one node to another. Comments
+ * inside the source node stay where they are.
+ */
+export function copyComments(source: ast.Node, target: ast.Node) {
+  const comments = (source.comments || [])
+    .filter(comment => comment.leading || comment.trailing)
+    .map(comment => isBlockComment(comment) ?
+      b.commentBlock(comment.value, comment.leading, comment.trailing) :
+      b.commentLine(comment.value, comment.leading, comment.trailing));
+  if (comments.length > 0) {
+    addComments(target, comments);
+  }
+}
+
+/**
+ * Parses the value of a JSDoc comment, i.e. the text between "/**" and "*\/".
+ */
+export function parseJsDoc(value: string): JsDoc {
+  const lines = value
+    .replace(/^\*/, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*\*?\s?/, '').replace(/\s+$/, ''));
+  const description: string[] = [];
+  const tags: string[][] = [];
+  lines.forEach(line => {
+    if (/^@\w/.test(line)) {
+      tags.push([line]);
+    } else if (tags.length > 0) {
+      tags[tags.length - 1].push(line);
+    } else {
+      description.push(line);
+    }
+  });
+  return {
+    description: description.join('\n').trim(),
+    tags: tags.map(tagLines => parseJsDocTag(tagLines.join('\n').trim()))
+  };
+}
+
+function parseJsDocTag(text: string): JsDocTag {
+  const match = /^@(\w+)\s*/.exec(text);
+  const tag: JsDocTag = { tag: match[1], description: '' };
+  let rest = text.slice(match[0].length);
+  if (rest.charAt(0) === '{') {
+    const end = findClosingBrace(rest);
+    if (end > 0) {
+      tag.type = rest.slice(1, end).trim();
+      rest = rest.slice(end + 1).replace(/^\s+/, '');
+    }
+  }
+  if (namedTags.indexOf(tag.tag) >= 0) {
+    const optional = /^\[([^\]=]+)(?:=([^\]]*))?\]\s*/.exec(rest);
+    const name = optional || /^([^\s]+)\s*/.exec(rest);
+    if (name) {
+      tag.name = name[1].trim();
+      if (optional) {
+        tag.optional = true;
+        if (optional[2] !== undefined) {
+          tag.defaultValue = optional[2].trim();
+        }
+      }
+      rest = rest.slice(name[0].length);
+    }
+  }
+  tag.description = rest.replace(/^-\s+/, '').trim();
+  return tag;
+}
+
+/**
+ * Returns the index of the brace closing the one at the start of the text,
+ * since types can contain braces themselves, e.g. "{{a: number}}".
+ */
+function findClosingBrace(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charAt(i) === '{') {
+      depth++;
+    } else if (text.charAt(i) === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function pad(text: string, padding: string): string {
+  if (text.length === 0) {
+    return text;
+  }
+  return (/^\s/.test(text) ? '' : ' ') + text + (/\s$/.test(text) ? '' : padding);
+}
@@ -0,0 +1,80 @@
+import { splitLines, diffLines, diffRanges, formatUnifiedDiff } from './Diff';
+
+describe('Diff', () => {
+  it('split lines', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitLines('a\nb')).toEqual(['a\n', 'b']);
+    expect(splitLines('a\n\nb\n')).toEqual(['a\n', '\n', 'b\n']);
+  });
+
+  it('diff lines', () => {
+    const edits = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+    const oldLines = edits.filter(e => e.type !== 'insert').map(e => e.line);
+    const newLines = edits.filter(e => e.type !== 'delete').map(e => e.line);
+    expect(oldLines).toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+    expect(newLines).toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+    expect(edits.filter(e => e.type !== 'equal').length).toBe(5);
+    expect(diffLines([], [])).toEqual([]);
+  });
+
+  it('changed ranges', () => {
+    const oldText = 'a\nb\nc\nd\ne\n';
+    expect(diffRanges(oldText, oldText)).toEqual([]);
+    expect(diffRanges(oldText, 'a\nB\nc\nd\ne\nf\n')).toEqual([
+      { oldStart: 2, oldLines: 1, newStart: 2, newLines: 1 },
+      { oldStart: 5, oldLines: 0, newStart: 6, newLines: 1 }
+    ]);
+    expect(diffRanges(oldText, 'b\nc\nd\ne\n')).toEqual([
+      { oldStart: 1, oldLines: 1, newStart: 0, newLines: 0 }
+    ]);
+  });
+
+  it('unified diff', () => {
+    const oldText = '1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n';
+    const newText = '1\n2\nthree\n4\n5\n6\n7\n8\n9\n10\n11\n';
+    expect(formatUnifiedDiff(oldText, oldText)).toBe('');
+    expect(formatUnifiedDiff(oldText, newText, {
+      context: 1,
+      oldFileName: 'a/foo.js',
+      newFileName: 'b/foo.js'
+    })).toBe([
+      '--- a/foo.js',
+      '+++ b/foo.js',
+      '@@ -2,3 +2,3 @@',
+      ' 2',
+      '-3',
+      '+three',
+      ' 4',
+      '@@ -10 +10,2 @@',
+      ' 10',
+      '+11',
+      ''
+    ].join('\n'));
+    // Nearby changes are merged into a single hunk
+    expect(formatUnifiedDiff(oldText, newText, { context: 4 }).split('\n')[2]).toBe('@@ -1,10 +1,11 @@');
+  });
+
+  it('missing newline at end of file', () => {
+    expect(formatUnifiedDiff('a\nb\n', 'a\nb')).toBe([
+      '--- original',
+      '+++ modified',
+      '@@ -1,2 +1,2 @@',
+      ' a',
+      '-b',
+      '+b',
+      '\\ No newline at end of file',
+      ''
+    ].join('\n'));
+  });
+
+  it('large rewrites', () => {
+    // Keeping the whole search trace would take hundreds of megabytes here
+    const oldLines = Array.from({ length: 3000 }, (_, i) => `old ${i}\n`);
+    const newLines = Array.from({ length: 3000 }, (_, i) => i % 3 ? `old ${i}\n` : `new ${i}\n`);
+    const edits = diffLines(oldLines, newLines);
+    expect(edits.filter(e => e.type === 'equal').length).toBe(2000);
+    expect(edits.filter(e => e.type === 'insert').map(e => e.line)).toEqual(
+      newLines.filter((_, i) => i % 3 === 0));
+    expect(diffLines(oldLines, []).length).toBe(3000);
+  });
+});
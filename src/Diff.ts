@@ -0,0 +1,272 @@
+/**
+ * Line based diffs between two versions of a source text, using the Myers
+ * algorithm ("An O(ND) Difference Algorithm and Its Variations").
+ *
+ * Lines keep their line terminator, so a missing newline at the end of a file
+ * shows up as a change of the last line, just like it does in diff(1).
+ */
+
+export type DiffEditType = 'equal' | 'insert' | 'delete';
+
+export type DiffEdit = {
+  type: DiffEditType,
+  line: string,
+  /**
+   * Index of the line in the old text. For insertions, this is the index of
+   * the old line that follows the inserted one.
+   */
+  oldIndex: number,
+  /**
+   * Index of the line in the new text. For deletions, this is the index of the
+   * new line that follows the deleted one.
+   */
+  newIndex: number
+};
+
+/**
+ * A range of changed lines, using 1-based line numbers like unified diffs do.
+ * If a range is empty (i.e. lines were only inserted or only deleted), its
+ * start is the line after which the change happened.
+ */
+export type DiffRange = {
+  oldStart: number,
+  oldLines: number,
+  newStart: number,
+  newLines: number
+};
+
+export type DiffHunk = DiffRange & {
+  edits: DiffEdit[]
+};
+
+export type UnifiedDiffOptions = {
+  /**
+   * Number of unchanged lines to show around each change. Defaults to 3.
+   */
+  context?: number,
+  oldFileName?: string,
+  newFileName?: string
+};
+
+/**
+ * Splits a text into lines, keeping the line terminators.
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.split(/^/m);
+  return lines.length === 1 && lines[0] === '' ? [] : lines;
+}
+
+/**
+ * Returns the shortest sequence of edits that turns the old lines into the
+ * new lines. Uses the linear space variant of the algorithm, so memory does
+ * not grow with the number of differences.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffEdit[] {
+  const edits: DiffEdit[] = [];
+  diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, edits);
+  return edits;
+}
+
+/**
+ * Appends the edits between oldLines[oldStart..oldEnd) and
+ * newLines[newStart..newEnd).
+ */
+function diffRange(oldLines: string[], oldStart: number, oldEnd: number,
+  newLines: string[], newStart: number, newEnd: number, edits: DiffEdit[]) {
+
+  while (oldStart < oldEnd && newStart < newEnd && oldLines[oldStart] === newLines[newStart]) {
+    edits.push({ type: 'equal', line: oldLines[oldStart], oldIndex: oldStart, newIndex: newStart });
+    oldStart++;
+    newStart++;
+  }
+  let suffix = 0;
+  while (oldEnd > oldStart && newEnd > newStart &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+    suffix++;
+  }
+  const split = oldStart < oldEnd && newStart < newEnd &&
+    findMiddleSnake(oldLines, oldStart, oldEnd, newLines, newStart, newEnd);
+  if (split) {
+    diffRange(oldLines, oldStart, split[0], newLines, newStart, split[1], edits);
+    diffRange(oldLines, split[0], oldEnd, newLines, split[1], newEnd, edits);
+  } else {
+    for (let x = oldStart; x < oldEnd; x++) {
+      edits.push({ type: 'delete', line: oldLines[x], oldIndex: x, newIndex: newStart });
+    }
+    for (let y = newStart; y < newEnd; y++) {
+      edits.push({ type: 'insert', line: newLines[y], oldIndex: oldEnd, newIndex: y });
+    }
+  }
+  for (let i = 0; i < suffix; i++) {
+    edits.push({ type: 'equal', line: oldLines[oldEnd + i], oldIndex: oldEnd + i,
+      newIndex: newEnd + i });
+  }
+}
+
+/**
+ * Searches for the shortest edit path from both ends at once, and returns the
+ * point (in absolute line indexes) where the paths meet, which lies on a
+ * shortest path. Returns undefined if the ranges have no lines in common.
+ *
+ * The ranges must not share a common prefix or suffix, which guarantees that
+ * the returned point splits the problem into smaller ones.
+ */
+function findMiddleSnake(oldLines: string[], oldStart: number, oldEnd: number,
+  newLines: string[], newStart: number, newEnd: number): [number, number] {
+
+  const n = oldEnd - oldStart;
+  const m = newEnd - newStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const length = 2 * maxD + 2;
+  // forward[offset + k] is the furthest x reached on diagonal k from the
+  // start, backward[offset + k] the furthest distance reached from the end
+  const forward = new Int32Array(length).fill(-1);
+  const backward = new Int32Array(length).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // If delta is odd, the paths can only meet after a forward step
+  const checkForward = delta % 2 !== 0;
+  // Diagonals that left the grid do not need to be searched again
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = (k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])) ?
+        forward[offset + k + 1] : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[oldStart + x] === newLines[newStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const index = offset + delta - k;
+        if (index >= 0 && index < length && backward[index] !== -1 && x >= n - backward[index]) {
+          return [oldStart + x, newStart + y];
+        }
+      }
+    }
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = (k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])) ?
+        backward[offset + k + 1] : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m &&
+        oldLines[oldEnd - x - 1] === newLines[newEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const index = offset + delta - k;
+        if (index >= 0 && index < length && forward[index] !== -1) {
+          const forwardX = forward[index];
+          if (forwardX >= n - x) {
+            return [oldStart + forwardX, newStart + forwardX - (index - offset)];
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Groups edits into hunks, with the given number of unchanged lines around
+ * each change. Changes that are close to each other end up in the same hunk.
+ */
+export function createHunks(edits: DiffEdit[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let lastChange = -1;
+  const flush = () => {
+    const end = Math.min(edits.length, lastChange + 1 + context);
+    hunks.push(createHunk(edits.slice(start, end)));
+  };
+  edits.forEach((edit, index) => {
+    if (edit.type === 'equal') {
+      return;
+    }
+    if (start >= 0 && index - lastChange - 1 > 2 * context) {
+      flush();
+      start = -1;
+    }
+    if (start < 0) {
+      start = Math.max(0, index - context);
+    }
+    lastChange = index;
+  });
+  if (start >= 0) {
+    flush();
+  }
+  return hunks;
+}
+
+function createHunk(edits: DiffEdit[]): DiffHunk {
+  const oldLines = edits.filter(edit => edit.type !== 'insert').length;
+  const newLines = edits.filter(edit => edit.type !== 'delete').length;
+  return {
+    oldStart: oldLines > 0 ? edits[0].oldIndex + 1 : edits[0].oldIndex,
+    oldLines,
+    newStart: newLines > 0 ? edits[0].newIndex + 1 : edits[0].newIndex,
+    newLines,
+    edits
+  };
+}
+
+/**
+ * Returns the ranges of lines that differ between the two texts.
+ */
+export function diffRanges(oldText: string, newText: string): DiffRange[] {
+  return createHunks(diffLines(splitLines(oldText), splitLines(newText)), 0)
+    .map(hunk => ({
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines
+    }));
+}
+
+/**
+ * Returns a unified diff between the two texts, suitable for patch(1). Returns
+ * an empty string if the texts are equal.
+ */
+export function formatUnifiedDiff(oldText: string, newText: string,
+  options: UnifiedDiffOptions = {}): string {
+
+  const context = options.context === undefined ? 3 : options.context;
+  const hunks = createHunks(diffLines(splitLines(oldText), splitLines(newText)), context);
+  if (hunks.length === 0) {
+    return '';
+  }
+  let result = `--- ${options.oldFileName || 'original'}\n` +
+    `+++ ${options.newFileName || 'modified'}\n`;
+  hunks.forEach(hunk => {
+    result += `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} ` +
+      `+${formatRange(hunk.newStart, hunk.newLines)} @@\n`;
+    hunk.edits.forEach(edit => {
+      const prefix = edit.type === 'equal' ? ' ' : edit.type === 'insert' ? '+' : '-';
+      result += prefix + edit.line;
+      if (edit.line.charAt(edit.line.length - 1) !== '\n') {
+        result += '\n\\ No newline at end of file\n';
+      }
+    });
+  });
+  return result;
+}
+
+function formatRange(start: number, lines: number): string {
+  return lines === 1 ? `${start}` : `${start},${lines}`;
+}
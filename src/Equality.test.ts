@@ -0,0 +1,49 @@
+import { nodesEqual, valuesEqual, structuralHash } from './Equality';
+import { JsNode } from './JsNode';
+
+function parse(code: string) {
+  return JsNode.fromCode(code).first().node;
+}
+
+describe('Equality', () => {
+  it('nodes equal', () => {
+    expect(nodesEqual(parse('foo( 1 ,bar )'), parse('foo(1, bar)'))).toBe(true);
+    expect(nodesEqual(parse('foo(1, bar)'), parse('foo(1, baz)'))).toBe(false);
+    expect(nodesEqual(parse('foo(1)'), parse('foo(1, 2)'))).toBe(false);
+    expect(nodesEqual(parse('/a/g'), parse('/a/g'))).toBe(true);
+    expect(nodesEqual(parse('/a/g'), parse('/a/i'))).toBe(false);
+    expect(nodesEqual(parse('"1"'), parse('1'))).toBe(false);
+  });
+
+  it('locations', () => {
+    const a = parse('foo;');
+    const b = parse(' foo;');
+    expect(nodesEqual(a, b)).toBe(true);
+    expect(nodesEqual(a, b, { ignoreLocations: false })).toBe(false);
+    expect(nodesEqual(a, parse('foo;'), { ignoreLocations: false })).toBe(true);
+  });
+
+  it('comments', () => {
+    const a = JsNode.fromCode('// foo\nfoo();').first().node;
+    const b = JsNode.fromCode('// bar\nfoo();').first().node;
+    expect(nodesEqual(a, b)).toBe(true);
+    expect(nodesEqual(a, b, { ignoreComments: false })).toBe(false);
+  });
+
+  it('values equal', () => {
+    expect(valuesEqual(null, undefined)).toBe(true);
+    expect(valuesEqual([parse('a')], [parse('a')])).toBe(true);
+    expect(valuesEqual([parse('a')], parse('a'))).toBe(false);
+    expect(valuesEqual('a', 'a')).toBe(true);
+  });
+
+  it('structural hash', () => {
+    const hash = structuralHash(parse('foo( 1 ,bar )'));
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(structuralHash(parse('foo(1, bar)'))).toBe(hash);
+    expect(structuralHash(parse('foo(1, baz)'))).not.toBe(hash);
+    expect(structuralHash(parse('foo("1", bar)'))).not.toBe(hash);
+    expect(structuralHash(parse(' foo(1, bar)'), { ignoreLocations: false }))
+      .not.toBe(structuralHash(parse('foo(1, bar)'), { ignoreLocations: false }));
+  });
+});
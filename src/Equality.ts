@@ -0,0 +1,128 @@
+/**
+ * Structural comparison of AST nodes. Two nodes are equal if they have the
+ * same type and all of their fields (as defined by ast-types) are equal, so
+ * formatting does not matter: "foo( 1 )" equals "foo(1)".
+ */
+
+import { ast } from '../deps/bundle';
+
+export type EqualityOptions = {
+  /**
+   * Ignores where nodes are located in the source. Defaults to true.
+   */
+  ignoreLocations?: boolean,
+  /**
+   * Ignores comments attached to nodes. Defaults to true.
+   */
+  ignoreComments?: boolean
+};
+
+export function isNode(value: any): value is ast.Node {
+  return !!value && typeof value === 'object' && typeof value.type === 'string';
+}
+
+/**
+ * Returns true if both values are structurally equal. Values can be nodes,
+ * lists of nodes or primitives.
+ */
+export function valuesEqual(a: any, b: any, options: EqualityOptions = {}): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a === null || a === undefined) && (b === null || b === undefined);
+  }
+  if (isNode(a) || isNode(b)) {
+    return nodesEqual(a, b, options);
+  }
+  if (a instanceof Array || b instanceof Array) {
+    return (a instanceof Array) && (b instanceof Array) && a.length === b.length &&
+      a.every((value, i) => valuesEqual(value, b[i], options));
+  }
+  if (typeof a === 'object' && typeof b === 'object') {
+    return String(a) === String(b) && JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Returns true if both nodes are structurally equal.
+ */
+export function nodesEqual(a: ast.Node, b: ast.Node, options: EqualityOptions = {}): boolean {
+  if (!isNode(a) || !isNode(b) || a.type !== b.type) {
+    return false;
+  }
+  if (!locationsEqual(a, b, options)) {
+    return false;
+  }
+  return getComparedFields(a, options)
+    .every(name => valuesEqual(ast.getFieldValue(a, name), ast.getFieldValue(b, name), options));
+}
+
+/**
+ * Returns a hash of the value that is the same for all structurally equal
+ * values, using the same options as valuesEqual(). Hashes are stable across
+ * runs, so they can be stored.
+ */
+export function structuralHash(value: any, options: EqualityOptions = {}): string {
+  return hashString(serialize(value, options));
+}
+
+function locationsEqual(a: ast.Node, b: ast.Node, options: EqualityOptions): boolean {
+  if (options.ignoreLocations !== false) {
+    return true;
+  }
+  return serializeLocation(a.loc) === serializeLocation(b.loc);
+}
+
+function getComparedFields(node: ast.Node, options: EqualityOptions): string[] {
+  const fields = ast.getFieldNames(node)
+    .filter(name => name !== 'type' && name !== 'loc' && name !== 'comments');
+  // Comments are attached by the parser but are not part of the definitions
+  return options.ignoreComments === false ? fields.concat(['comments']) : fields;
+}
+
+/**
+ * Returns a string that is the same for all structurally equal values.
+ */
+function serialize(value: any, options: EqualityOptions): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (isNode(value)) {
+    const fields = getComparedFields(value, options)
+      .map(name => `${name}:${serialize(ast.getFieldValue(value, name), options)}`);
+    if (options.ignoreLocations === false) {
+      fields.push(`loc:${serializeLocation(value.loc)}`);
+    }
+    return `${value.type}{${fields.join(',')}}`;
+  }
+  if (value instanceof Array) {
+    return `[${value.map(v => serialize(v, options)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    return `${String(value)}${JSON.stringify(value)}`;
+  }
+  return `${typeof value}:${JSON.stringify(value)}`;
+}
+
+function serializeLocation(loc: ast.SourceLocation): string {
+  return loc ?
+    `${loc.start.line}:${loc.start.column}-${loc.end.line}:${loc.end.column}` : 'null';
+}
+
+/**
+ * Combines two 32 bit FNV-1a hashes with different offsets, to make
+ * collisions less likely.
+ */
+function hashString(s: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x050c5d1f;
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193) >>> 0;
+    h2 = Math.imul(h2 ^ c, 0x01000193) >>> 0;
+  }
+  return hex(h1) + hex(h2);
+}
+
+function hex(n: number): string {
+  return ('0000000' + n.toString(16)).slice(-8);
+}
@@ -0,0 +1,31 @@
+import { MemoryFileSystem, normalizePath, joinPath } from './FileSystem';
+
+describe('FileSystem', () => {
+  it('normalize and join paths', () => {
+    expect(normalizePath('./src//foo/')).toBe('src/foo');
+    expect(normalizePath('src/./foo.js')).toBe('src/foo.js');
+    expect(normalizePath('./')).toBe('.');
+    expect(normalizePath('/src')).toBe('/src');
+    expect(joinPath('.', 'foo.js')).toBe('foo.js');
+    expect(joinPath('src/', 'lib', 'foo.js')).toBe('src/lib/foo.js');
+  });
+
+  it('memory file system', () => {
+    const fs = new MemoryFileSystem({ './src/foo.js': 'foo', 'src/lib/bar.js': 'bar' });
+    expect(fs.readFile('src/foo.js')).toBe('foo');
+    expect(() => fs.readFile('src/baz.js')).toThrowError(/File not found/);
+    fs.writeFile('src/baz.js', 'baz');
+    expect(fs.exists('src/baz.js')).toBe(true);
+    expect(fs.exists('src/lib')).toBe(true);
+    expect(fs.isDirectory('src/lib')).toBe(true);
+    expect(fs.isDirectory('src/foo.js')).toBe(false);
+    expect(fs.readDirectory('.')).toEqual(['src']);
+    expect(fs.readDirectory('src')).toEqual(['baz.js', 'foo.js', 'lib']);
+    fs.link('src/loop', 'src');
+    expect(fs.isSymbolicLink('src/loop')).toBe(true);
+    expect(fs.isSymbolicLink('src/lib')).toBe(false);
+    expect(fs.isDirectory('src/loop/loop/lib')).toBe(true);
+    expect(fs.readFile('src/loop/lib/bar.js')).toBe('bar');
+    expect(fs.readDirectory('src/loop')).toEqual(['baz.js', 'foo.js', 'lib', 'loop']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * A minimal file system abstraction, so that files can be transformed in
+ * environments other than node (and in memory, for tests).
+ *
+ * Paths always use "/" as separator.
+ */
+
+export interface FileSystem {
+  readFile(path: string): string;
+  writeFile(path: string, contents: string): void;
+  exists(path: string): boolean;
+  isDirectory(path: string): boolean;
+  isSymbolicLink(path: string): boolean;
+  /**
+   * Returns the names of all entries in the directory.
+   */
+  readDirectory(path: string): string[];
+}
+
+/**
+ * Accesses the local file system using node's fs module.
+ */
+export class NodeFileSystem implements FileSystem {
+  // Loaded lazily, since this module is also used outside of node
+  protected fs = require('fs');
+
+  readFile(path: string): string {
+    return this.fs.readFileSync(path, 'utf8');
+  }
+
+  writeFile(path: string, contents: string) {
+    this.fs.writeFileSync(path, contents, 'utf8');
+  }
+
+  exists(path: string): boolean {
+    return this.fs.existsSync(path);
+  }
+
+  isDirectory(path: string): boolean {
+    return this.exists(path) && this.fs.statSync(path).isDirectory();
+  }
+
+  isSymbolicLink(path: string): boolean {
+    return this.exists(path) && this.fs.lstatSync(path).isSymbolicLink();
+  }
+
+  readDirectory(path: string): string[] {
+    return this.fs.readdirSync(path);
+  }
+}
+
+/**
+ * Keeps files in memory. Directories exist implicitly as long as they contain
+ * files.
+ */
+export class MemoryFileSystem implements FileSystem {
+  files: { [path: string]: string } = {};
+  links: { [path: string]: string } = {};
+
+  constructor(files: { [path: string]: string } = {}) {
+    Object.keys(files).forEach(path => this.writeFile(path, files[path]));
+  }
+
+  /**
+   * Creates a symbolic link. Unlike in a real file system, the target is
+   * relative to the root, not to the directory containing the link.
+   */
+  link(path: string, target: string) {
+    this.links[normalizePath(path)] = normalizePath(target);
+  }
+
+  readFile(path: string): string {
+    path = this.resolve(path);
+    if (!this.files.hasOwnProperty(path)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return this.files[path];
+  }
+
+  writeFile(path: string, contents: string) {
+    this.files[this.resolve(path)] = contents;
+  }
+
+  exists(path: string): boolean {
+    return this.files.hasOwnProperty(this.resolve(path)) || this.isDirectory(path);
+  }
+
+  isDirectory(path: string): boolean {
+    const prefix = directoryPrefix(this.resolve(path));
+    return Object.keys(this.files).some(file => file.indexOf(prefix) === 0);
+  }
+
+  isSymbolicLink(path: string): boolean {
+    return this.links.hasOwnProperty(normalizePath(path));
+  }
+
+  readDirectory(path: string): string[] {
+    const prefix = directoryPrefix(this.resolve(path));
+    const names: string[] = [];
+    const add = (entry: string, entryPrefix: string) => {
+      if (entry.indexOf(entryPrefix) === 0) {
+        const name = entry.slice(entryPrefix.length).split('/')[0];
+        if (names.indexOf(name) < 0) {
+          names.push(name);
+        }
+      }
+    };
+    Object.keys(this.files).forEach(file => add(file, prefix));
+    Object.keys(this.links).forEach(link => add(link, prefix));
+    return names.sort();
+  }
+
+  /**
+   * Replaces links in the path by their targets.
+   */
+  protected resolve(path: string): string {
+    path = normalizePath(path);
+    let link: string;
+    while ((link = Object.keys(this.links).find(l => path === l || path.indexOf(l + '/') === 0))) {
+      path = joinPath(this.links[link], path.slice(link.length + 1));
+    }
+    return path;
+  }
+}
+
+/**
+ * Removes redundant "./" segments and trailing slashes.
+ */
+export function normalizePath(path: string): string {
+  const normalized = path
+    .replace(/\/+/g, '/')
+    .replace(/(^|\/)(\.\/)+/g, '$1')
+    .replace(/(.)\/$/, '$1')
+    .replace(/\/\.$/, '');
+  return normalized === '' ? '.' : normalized;
+}
+
+/**
+ * Joins path segments, ignoring "." segments.
+ */
+export function joinPath(...segments: string[]): string {
+  return normalizePath(segments.filter(s => s !== '.' && s !== '').join('/'));
+}
+
+function directoryPrefix(path: string): string {
+  path = normalizePath(path);
+  return path === '.' ? '' : path + '/';
+}
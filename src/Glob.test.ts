@@ -0,0 +1,60 @@
+import { isGlob, globToRegExp, expandGlob } from './Glob';
+import { MemoryFileSystem } from './FileSystem';
+
+describe('Glob', () => {
+  it('is glob', () => {
+    expect(isGlob('src/foo.js')).toBe(false);
+    expect(isGlob('src/*.js')).toBe(true);
+    expect(isGlob('src/foo.{js,jsx}')).toBe(true);
+  });
+
+  it('glob to regular expression', () => {
+    const matches = (pattern: string, path: string) => globToRegExp(pattern).test(path);
+    expect(matches('*.js', 'foo.js')).toBe(true);
+    expect(matches('*.js', 'src/foo.js')).toBe(false);
+    expect(matches('*.js', 'foo.jsx')).toBe(false);
+    expect(matches('src/**/*.js', 'src/foo.js')).toBe(true);
+    expect(matches('src/**/*.js', 'src/a/b/foo.js')).toBe(true);
+    expect(matches('src/**', 'src/a/b/foo.js')).toBe(true);
+    expect(matches('./src/?.js', 'src/a.js')).toBe(true);
+    expect(matches('src/?.js', 'src/ab.js')).toBe(false);
+    expect(matches('src/[ab].js', 'src/b.js')).toBe(true);
+    expect(matches('src/[!ab].js', 'src/b.js')).toBe(false);
+    expect(matches('*.{js,jsx}', 'foo.jsx')).toBe(true);
+    expect(matches('(foo)+.js', '(foo)+.js')).toBe(true);
+  });
+
+  it('expand glob', () => {
+    const fs = new MemoryFileSystem({
+      'foo.js': '',
+      'src/a.js': '',
+      'src/b.jsx': '',
+      'src/c.ts': '',
+      'src/lib/d.js': ''
+    });
+    expect(expandGlob('*.js', fs)).toEqual(['foo.js']);
+    expect(expandGlob('src/*.js', fs)).toEqual(['src/a.js']);
+    expect(expandGlob('src/*/*.js', fs)).toEqual(['src/lib/d.js']);
+    expect(expandGlob('**/*.js', fs)).toEqual(['foo.js', 'src/a.js', 'src/lib/d.js']);
+    expect(expandGlob('src/**/*.{js,jsx}', fs)).toEqual(['src/a.js', 'src/b.jsx', 'src/lib/d.js']);
+    expect(expandGlob('src/c.ts', fs)).toEqual(['src/c.ts']);
+    expect(expandGlob('lib/*.js', fs)).toEqual([]);
+  });
+
+  it('skip ignored directories and symbolic links', () => {
+    const fs = new MemoryFileSystem({
+      'src/a.js': '',
+      'src/.cache/b.js': '',
+      'src/lib/c.min.js': '',
+      'node_modules/dep/index.js': '',
+      'lib/node_modules/dep/index.js': ''
+    });
+    fs.link('src/loop', '.');
+    fs.link('src/other', 'lib');
+    expect(fs.readDirectory('src')).toEqual(['.cache', 'a.js', 'lib', 'loop', 'other']);
+    expect(expandGlob('**/*.js', fs)).toEqual(['src/a.js', 'src/lib/c.min.js']);
+    expect(expandGlob('src/**/*.js', fs, { ignore: ['*.min.js'] })).toEqual(['src/a.js']);
+    expect(expandGlob('**/*.js', fs, { ignore: ['src/lib'] })).toEqual(['src/a.js']);
+    expect(expandGlob('node_modules/dep/*.js', fs)).toEqual(['node_modules/dep/index.js']);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Expands file name patterns. The following wildcards are supported:
+ *
+ *   *       any number of characters, except "/"
+ *   ?       a single character, except "/"
+ *   **      any number of directories (as a whole path segment)
+ *   [abc]   one of the characters (use [!abc] to negate)
+ *   {a,b}   one of the alternatives
+ *
+ * Wildcards skip node_modules and all files and directories starting with ".",
+ * and do not descend into symbolic links to directories, which may form loops.
+ */
+
+import { FileSystem, normalizePath, joinPath } from './FileSystem';
+
+const globCharacters = /[*?[{]/;
+
+export const defaultIgnore = ['node_modules', '.*'];
+
+export type ExpandGlobOptions = {
+  /**
+   * Patterns of files and directories to skip, matched against both their
+   * names and their paths. Added to defaultIgnore.
+   */
+  ignore?: string[]
+};
+
+/**
+ * Returns true if the pattern contains any wildcards.
+ */
+export function isGlob(pattern: string): boolean {
+  return globCharacters.test(pattern);
+}
+
+/**
+ * Converts a pattern to a regular expression that matches entire paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  pattern = normalizePath(pattern);
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern.charAt(i);
+    if (c === '*' && pattern.charAt(i + 1) === '*') {
+      const segmentStart = i === 0 || pattern.charAt(i - 1) === '/';
+      if (segmentStart && pattern.charAt(i + 2) === '/') {
+        source += '(?:[^/]*/)*';
+        i += 2;
+      } else if (segmentStart && i + 2 === pattern.length) {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end < 0) {
+        source += '\\[';
+      } else {
+        let characters = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (characters.charAt(0) === '!') {
+          characters = '^' + characters.slice(1);
+        }
+        source += `[${characters}]`;
+        i = end;
+      }
+    } else if (c === '{' && !inGroup) {
+      source += '(?:';
+      inGroup = true;
+    } else if (c === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (c === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += c.replace(/[.+^$()|\\\]{}]/, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns all files matching the pattern, in lexicographical order.
+ */
+export function expandGlob(pattern: string, fileSystem: FileSystem,
+  options: ExpandGlobOptions = {}): string[] {
+
+  pattern = normalizePath(pattern);
+  const segments = pattern.split('/');
+  const firstGlob = segments.findIndex(segment => isGlob(segment));
+  if (firstGlob < 0) {
+    return fileSystem.exists(pattern) && !fileSystem.isDirectory(pattern) ? [pattern] : [];
+  }
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const exp = globToRegExp(pattern);
+  const recursive = segments.slice(firstGlob).some(segment => segment.indexOf('**') >= 0);
+  const depth = segments.length - firstGlob;
+  const ignore = defaultIgnore.concat(options.ignore || []).map(globToRegExp);
+  const result: string[] = [];
+  const walk = (directory: string, level: number) => {
+    fileSystem.readDirectory(directory).forEach(name => {
+      const path = joinPath(directory, name);
+      if (ignore.some(ignored => ignored.test(name) || ignored.test(path))) {
+        return;
+      }
+      if (fileSystem.isDirectory(path)) {
+        if ((recursive || level < depth) && !fileSystem.isSymbolicLink(path)) {
+          walk(path, level + 1);
+        }
+      } else if (exp.test(path)) {
+        result.push(path);
+      }
+    });
+  };
+  if (fileSystem.isDirectory(base)) {
+    walk(base, 1);
+  }
+  return result.sort();
+}
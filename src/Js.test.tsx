@@ -1,5 +1,6 @@
 import * as js from './Js';
 import { JsCode } from './JsCode';
+import { JsNode } from './JsNode';
 
 describe('jscode/js', () => {
 
@@ -311,8 +312,10 @@ describe('jscode/js', () => {
   });
 
   it('FunctionExpression', () => {
-    let empty = <js.FunctionExpression />;
+    let empty = <js.FunctionExpression /> as js.FunctionExpression;
     expect(empty.format()).toBe('function() {}');
+    expect(empty.isExpressionBody()).toBe(false);
+    expect(empty.toBlockBody()).toBe(empty);
 
     // let gen = <js.FunctionExpression generator={true}/> as js.FunctionExpression
     // expect(gen.format()).toBe('function*() {}');
@@ -449,6 +452,63 @@ describe('jscode/js', () => {
     expect(alias.format()).toBe('import { Bar as Baz } from "Code";');
   });
 
+  it('Default and namespace imports', () => {
+    const declaration = (
+      <js.ImportDeclaration source='react'>
+        <js.ImportDefaultSpecifier local='React' />
+        <js.ImportNamespaceSpecifier local='all' />
+      </js.ImportDeclaration>
+    ) as js.ImportDeclaration;
+    expect(declaration.format()).toBe('import React, * as all from "react";');
+    expect(declaration.source()).toBe('react');
+    expect(declaration.localNames()).toEqual(['React', 'all']);
+    expect(declaration.specifiers().at(0)).toBeInstanceOf(js.ImportDefaultSpecifier);
+    expect((declaration.specifiers().at(1) as js.ImportNamespaceSpecifier).local().name)
+      .toBe('all');
+  });
+
+  it('Export declarations', () => {
+    const named = (
+      <js.ExportNamedDeclaration>
+        <js.ExportSpecifier local='foo' />
+        <js.ExportSpecifier local='bar' exported='baz' />
+      </js.ExportNamedDeclaration>
+    ) as js.ExportNamedDeclaration;
+    expect(named.format()).toBe('export { foo, bar as baz };');
+    expect(named.exportedNames()).toEqual(['foo', 'baz']);
+    expect(named.specifiers().at(1).local().name).toBe('bar');
+
+    const reexport = (
+      <js.ExportNamedDeclaration source='./foo'>
+        <js.ExportSpecifier local='foo' />
+      </js.ExportNamedDeclaration>
+    );
+    expect(reexport.format()).toBe('export { foo } from "./foo";');
+
+    const declaration = (
+      <js.ExportNamedDeclaration>
+        <js.VariableDeclaration name='foo' kind='const'>
+          <js.Literal value={42} />
+        </js.VariableDeclaration>
+      </js.ExportNamedDeclaration>
+    ) as js.ExportNamedDeclaration;
+    expect(declaration.format()).toBe('export const foo = 42;');
+    expect(declaration.declaration().type()).toBe('VariableDeclaration');
+
+    const defaultExport = (<js.ExportDefaultDeclaration declaration='Foo' />);
+    expect(defaultExport.format()).toBe('export default Foo;');
+    const defaultClass = (
+      <js.ExportDefaultDeclaration>
+        <js.ClassDeclaration id='Foo' />
+      </js.ExportDefaultDeclaration>
+    ) as js.ExportDefaultDeclaration;
+    expect(defaultClass.format()).toBe('export default class Foo {}');
+
+    const all = (<js.ExportAllDeclaration source='./foo' />) as js.ExportAllDeclaration;
+    expect(all.format()).toBe('export * from "./foo"');
+    expect(all.source()).toBe('./foo');
+  });
+
   it('ArrayExpression', () => {
     const numbers = (
       <js.ArrayExpression>
@@ -648,5 +708,664 @@ describe('jscode/js', () => {
     );
     expect(withChildren.formatStripped()).toBe(`<div foo="bar"><h1>Title</h1></div>`);
   });
-});
 
+  it('ForStatement', () => {
+    const empty = (<js.ForStatement />) as js.ForStatement;
+    expect(empty.formatStripped()).toBe('for (; ; ){}');
+    expect(empty.init()).toBeUndefined();
+    expect(empty.test()).toBeUndefined();
+    expect(empty.update()).toBeUndefined();
+
+    const loop = (
+      <js.ForStatement
+        test={<js.BinaryExpression left='i' operator='<' right={10} /> as js.BinaryExpression}
+        update={<js.UnaryExpression operator='-' argument='i' /> as js.UnaryExpression}>
+        <js.VariableDeclaration name='i' kind='let'><js.Literal value={1} /></js.VariableDeclaration>
+      </js.ForStatement>
+    ) as js.ForStatement;
+    loop.append(<js.ExpressionStatement><js.CallExpression callee='foo' /></js.ExpressionStatement> as js.ExpressionStatement);
+    expect(loop.formatStripped()).toBe('for (let i = 1; i < 10; -i) {foo();}');
+    expect(loop.init().format()).toBe('let i = 1;');
+    expect(loop.test().format()).toBe('i < 10');
+    expect(loop.update().format()).toBe('-i');
+    expect(loop.body().formatStripped()).toBe('{foo();}');
+  });
+
+  it('ForInStatement', () => {
+    const loop = (<js.ForInStatement kind='const' left='key' right='object' />) as js.ForInStatement;
+    expect(loop.formatStripped()).toBe('for (const key in object){}');
+    expect(loop.left().format()).toBe('const key;');
+    expect(loop.right().format()).toBe('object');
+
+    const withIdentifier = (<js.ForInStatement left='key' right='object' />);
+    expect(withIdentifier.formatStripped()).toBe('for (key in object){}');
+  });
+
+  it('ForOfStatement', () => {
+    const loop = (
+      <js.ForOfStatement kind='let' left='item'>
+        <js.Identifier name='items' />
+        <js.ExpressionStatement><js.CallExpression callee='foo' /></js.ExpressionStatement>
+      </js.ForOfStatement>
+    ) as js.ForOfStatement;
+    expect(loop.formatStripped()).toBe('for (let item of items)foo();');
+    expect(loop.right().format()).toBe('items');
+    expect(loop.body().format()).toBe('foo();');
+  });
+
+  it('WhileStatement', () => {
+    const loop = (<js.WhileStatement test='running' />) as js.WhileStatement;
+    expect(loop.formatStripped()).toBe('while (running){}');
+    expect(loop.test().format()).toBe('running');
+
+    const doWhile = (
+      <js.DoWhileStatement>
+        <js.Identifier name='running' />
+        <js.BlockStatement />
+      </js.DoWhileStatement>
+    ) as js.DoWhileStatement;
+    expect(doWhile.formatStripped()).toBe('do{} while (running);');
+    expect(doWhile.test().format()).toBe('running');
+  });
+
+  it('Loop queries', () => {
+    const node = JsNode.fromModuleCode([
+      'for (let i = 0; i < n; i++) foo(i);',
+      'for (const key in object) {}',
+      'for (const item of items) {}',
+      'while (running) step();',
+      'do { step(); } while (running);'
+    ].join('\n'));
+    expect(node.findChildrenOfType(js.ForStatement).size()).toBe(1);
+    expect(node.findFirstChildOfType(js.ForInStatement).left().format()).toBe('const key');
+    expect(node.findFirstChildOfType(js.ForOfStatement).right().format()).toBe('items');
+    expect(node.findFirstChildOfType(js.DoWhileStatement).body().type()).toBe('BlockStatement');
+
+    const loop = node.findFirstChildOfType(js.ForStatement);
+    loop.prepend(<js.ExpressionStatement><js.CallExpression callee='bar' /></js.ExpressionStatement> as js.ExpressionStatement);
+    expect(loop.format()).toBe('for (let i = 0; i < n; i++) {\n  bar();\n  foo(i);\n}');
+    const whileLoop = node.findFirstChildOfType(js.WhileStatement);
+    whileLoop.append(<js.ExpressionStatement><js.CallExpression callee='check' /></js.ExpressionStatement> as js.ExpressionStatement);
+    expect(whileLoop.test().format()).toBe('running');
+    expect(whileLoop.body().format()).toBe('{\n    step();\n    check();\n}');
+  });
+
+  it('Modify loops with a comment before the parenthesis', () => {
+    const node = JsNode.fromModuleCode('for /* each */ (let i = 0; i < n; i++) foo(i);');
+    node.findFirstChildOfType(js.ForStatement).append(JsNode.fromCode<js.GenericStatement>('bar();').first());
+    expect(node.format()).toBe('for (/* each */ let i = 0; i < n; i++) {\n  foo(i);\n  bar();\n}');
+  });
+
+  it('Append parsed statements to a loop without block', () => {
+    const node = JsNode.fromModuleCode('while (running) step();\nfor (const item of items) use(item);');
+    node.findFirstChildOfType(js.WhileStatement).append(JsNode.fromCode<js.GenericStatement>('check();').first());
+    node.findFirstChildOfType(js.ForOfStatement).prepend(JsNode.fromCode<js.GenericStatement>('log(item);').first());
+    expect(node.format()).toBe([
+      'while (running) {',
+      '  step();',
+      '  check();',
+      '}',
+      'for (const item of items) {',
+      '  log(item);',
+      '  use(item);',
+      '}'
+    ].join('\n'));
+  });
+
+  it('TryStatement', () => {
+    const tryCatch = (
+      <js.TryStatement>
+        <js.BlockStatement>
+          <js.ExpressionStatement><js.CallExpression callee='foo' /></js.ExpressionStatement>
+        </js.BlockStatement>
+        <js.CatchClause param='e' />
+      </js.TryStatement>
+    ) as js.TryStatement;
+    expect(tryCatch.formatStripped()).toBe('try {foo();} catch (e) {}');
+    expect(tryCatch.block().formatStripped()).toBe('{foo();}');
+    expect(tryCatch.handler().param().format()).toBe('e');
+    expect(tryCatch.finalizer()).toBeUndefined();
+
+    const tryFinally = (
+      <js.TryStatement>
+        <js.BlockStatement />
+        <js.BlockStatement>
+          <js.ExpressionStatement><js.CallExpression callee='done' /></js.ExpressionStatement>
+        </js.BlockStatement>
+      </js.TryStatement>
+    ) as js.TryStatement;
+    expect(tryFinally.formatStripped()).toBe('try {} finally {done();}');
+    expect(tryFinally.handler()).toBeUndefined();
+    expect(tryFinally.finalizer().formatStripped()).toBe('{done();}');
+  });
+
+  it('CatchClause', () => {
+    const clause = (<js.CatchClause param='error' />) as js.CatchClause;
+    clause.append(<js.ThrowStatement argument='error' /> as js.ThrowStatement);
+    expect(clause.formatStripped()).toBe('catch (error) {throw error;}');
+    expect(clause.body().formatStripped()).toBe('{throw error;}');
+  });
+
+  it('ThrowStatement', () => {
+    const statement = (
+      <js.ThrowStatement>
+        <js.NewExpression callee='Error' />
+      </js.ThrowStatement>
+    ) as js.ThrowStatement;
+    expect(statement.format()).toBe('throw new Error();');
+    expect(statement.argument().format()).toBe('new Error()');
+  });
+
+  it('Wrap in try', () => {
+    const node = JsNode.fromModuleCode('let a;\nlet data = JSON.parse(text);\nuse(data);');
+    const statements = node.findChildrenOfType(js.Statement, s => s.type() !== 'VariableDeclaration' ||
+      s.format().indexOf('JSON') > 0);
+    const tryStatement = statements.wrapInTry<js.TryStatement>({
+      param: 'e',
+      handler: [<js.ReturnStatement /> as js.ReturnStatement]
+    });
+    expect(tryStatement instanceof js.TryStatement).toBe(true);
+    expect(node.format()).toBe([
+      'let a;',
+      '',
+      'try {',
+      '  let data = JSON.parse(text);',
+      '  use(data);',
+      '} catch (e) {',
+      '  return;',
+      '}'
+    ].join('\n'));
+    expect(statements.map(s => s.format())).toEqual(['let data = JSON.parse(text);', 'use(data);']);
+
+    const statement = node.findFirstChildOfType(js.VariableDeclaration);
+    statement.wrapInTry({ handler: null, finalizer: [] });
+    expect(statement.findClosestParentOfType(js.TryStatement).finalizer().format()).toBe('{}');
+  });
+
+  it('Wrap in try requires consecutive statements', () => {
+    const node = JsNode.fromModuleCode('a();\nb();\nc();');
+    const statements = () => node.findChildrenOfType(js.ExpressionStatement);
+    expect(() => statements().filter(s => s.format() !== 'b();').wrapInTry())
+      .toThrowError(/consecutive/);
+    expect(() => node.findChildrenOfType(js.Identifier).wrapInTry()).toThrowError(/same block/);
+    expect(() => statements().wrapInTry({ handler: null })).toThrowError(/catch or finally/);
+    expect(node.format()).toBe('a();\nb();\nc();');
+  });
+
+  it('SwitchStatement', () => {
+    const statement = (
+      <js.SwitchStatement discriminant='action'>
+        <js.SwitchCase test='ADD'>
+          <js.ReturnStatement><js.Literal value={1} /></js.ReturnStatement>
+        </js.SwitchCase>
+        <js.SwitchCase>
+          <js.ReturnStatement><js.Identifier name='state' /></js.ReturnStatement>
+        </js.SwitchCase>
+      </js.SwitchStatement>
+    ) as js.SwitchStatement;
+    expect(statement.format()).toBe([
+      'switch (action) {',
+      'case "ADD":',
+      '    return 1;',
+      'default:',
+      '    return state;',
+      '}'
+    ].join('\n'));
+    expect(statement.discriminant().format()).toBe('action');
+    expect(statement.cases().size()).toBe(2);
+    expect(statement.cases().at(0).test().format()).toBe('"ADD"');
+    expect(statement.defaultCase().test()).toBeUndefined();
+  });
+
+  it('SwitchCase', () => {
+    const switchCase = (<js.SwitchCase test={<js.Identifier name='ADD' /> as js.Identifier} />) as js.SwitchCase;
+    switchCase.append(<js.ReturnStatement><js.Identifier name='state' /></js.ReturnStatement> as js.ReturnStatement);
+    expect(switchCase.formatStripped()).toBe('case ADD:return state;');
+    expect(switchCase.isDefault()).toBe(false);
+    expect(switchCase.consequent().size()).toBe(1);
+    expect(((<js.SwitchCase />) as js.SwitchCase).isDefault()).toBe(true);
+  });
+
+  it('SwitchCase with falsy tests', () => {
+    const zero = (<js.SwitchCase test={0} />) as js.SwitchCase;
+    expect(zero.formatStripped()).toBe('case 0:');
+    expect(zero.isDefault()).toBe(false);
+    const empty = (<js.SwitchCase test='' />) as js.SwitchCase;
+    expect(empty.formatStripped()).toBe('case "":');
+    expect(empty.test().format()).toBe('""');
+    expect(((<js.SwitchCase test={false} />) as js.SwitchCase).formatStripped()).toBe('case false:');
+  });
+
+  it('Switch case manipulation', () => {
+    const node = JsNode.fromModuleCode([
+      'switch (action.type) {',
+      'case \'ADD\':',
+      '  return state + 1;',
+      'case REMOVE:',
+      '  return state - 1;',
+      'default:',
+      '  return state;',
+      '}'
+    ].join('\n'));
+    const statement = node.findFirstChildOfType(js.SwitchStatement);
+    expect(statement.findCase('ADD').consequent().at(0).format()).toBe('return state + 1;');
+    expect(statement.findCase(<js.Identifier name='REMOVE' /> as js.Identifier).test().format())
+      .toBe('REMOVE');
+    expect(statement.findCase('REMOVE')).toBeUndefined();
+    expect(statement.defaultCase().consequent().at(0).format()).toBe('return state;');
+
+    const reset = statement.addCase('RESET', [
+      <js.ReturnStatement><js.Literal value={1} /></js.ReturnStatement> as js.ReturnStatement
+    ], { beforeDefault: true });
+    expect(reset.test().format()).toBe('"RESET"');
+    statement.addCase(<js.Identifier name='LAST' /> as js.Identifier);
+    expect(statement.cases().map(c => c.test() ? c.test().format() : 'default'))
+      .toEqual(['\'ADD\'', 'REMOVE', '"RESET"', 'default', 'LAST']);
+  });
+
+  it('ArrowFunctionExpression', () => {
+    const empty = (<js.ArrowFunctionExpression />) as js.ArrowFunctionExpression;
+    expect(empty.format()).toBe('() => {}');
+    expect(empty.isExpressionBody()).toBe(false);
+
+    const identity = (
+      <js.ArrowFunctionExpression body='x'>
+        <js.Identifier name='x' />
+      </js.ArrowFunctionExpression>
+    ) as js.ArrowFunctionExpression;
+    expect(identity.format()).toBe('x => x');
+    expect(identity.isExpressionBody()).toBe(true);
+    expect(identity.params().map(p => p.format())).toEqual(['x']);
+    expect(identity.body().format()).toBe('x');
+
+    const block = (
+      <js.ArrowFunctionExpression>
+        <js.Identifier name='a' />
+        <js.Identifier name='b' />
+        <js.BlockStatement>
+          <js.ReturnStatement><js.Identifier name='a' /></js.ReturnStatement>
+        </js.BlockStatement>
+      </js.ArrowFunctionExpression>
+    ) as js.ArrowFunctionExpression;
+    expect(block.formatStripped()).toBe('(a, b) => {return a;}');
+  });
+
+  it('Function body conversions', () => {
+    const node = JsNode.fromModuleCode('const f = x => x * 2;\nconst g = () => { return {}; };');
+    const functions = node.findChildrenOfType(js.ArrowFunctionExpression);
+    const f = functions.at(0);
+    const g = functions.at(1);
+    f.toBlockBody();
+    expect(f.isExpressionBody()).toBe(false);
+    expect(f.format()).toBe('x => {\n  return x * 2;\n}');
+    f.toBlockBody().toExpressionBody();
+    expect(f.isExpressionBody()).toBe(true);
+    expect(f.format()).toBe('x => x * 2');
+    g.toExpressionBody();
+    expect(g.body().type()).toBe('ObjectExpression');
+    expect(node.format()).toBe('const f = x => x * 2;\nconst g = () => ({});');
+    expect(() => (<js.ArrowFunctionExpression /> as js.ArrowFunctionExpression).toExpressionBody())
+      .toThrowError(/single return statement/);
+
+    const fn = JsNode.fromModuleCode('function foo(a, b) { return a; }')
+      .findFirstChildOfType(js.FunctionDeclaration);
+    expect(fn.params().map(p => p.format())).toEqual(['a', 'b']);
+    expect(fn.body().type()).toBe('BlockStatement');
+    expect(fn.isExpressionBody()).toBe(false);
+    expect(fn.toBlockBody().format()).toBe('function foo(a, b) { return a; }');
+  });
+
+  it('TemplateLiteral', () => {
+    const empty = (<js.TemplateLiteral />) as js.TemplateLiteral;
+    expect(empty.format()).toBe('``');
+
+    const greeting = (
+      <js.TemplateLiteral>
+        {'Hello `'}
+        <js.Identifier name='name' />
+        {'`!'}
+      </js.TemplateLiteral>
+    ) as js.TemplateLiteral;
+    expect(greeting.format()).toBe('`Hello \\`${name}\\`!`');
+    expect(greeting.quasis().map(q => q.cooked)).toEqual(['Hello `', '`!']);
+    expect(greeting.quasis().at(1).isTail()).toBe(true);
+    expect(greeting.expressions().map(e => e.format())).toEqual(['name']);
+    expect(greeting.text()).toBe('Hello `${0}`!');
+    expect(greeting.text({ raw: true, placeholder: i => `$${i}` })).toBe('Hello \\`$0\\`!');
+  });
+
+  it('TemplateElement', () => {
+    const element = (<js.TemplateElement value='a${b}' />) as js.TemplateElement;
+    expect(element.cooked).toBe('a${b}');
+    expect(element.raw).toBe('a\\${b}');
+    expect(element.isTail()).toBe(false);
+  });
+
+  it('TaggedTemplateExpression', () => {
+    const query = (<js.TaggedTemplateExpression tag='gql' quasi='{ user }' />) as js.TaggedTemplateExpression;
+    expect(query.format()).toBe('gql`{ user }`');
+    expect(query.tag().format()).toBe('gql');
+
+    const styled = (
+      <js.TaggedTemplateExpression>
+        <js.MemberExpression object='styled' property='div' />
+        <js.TemplateLiteral>
+          {'color: '}
+          <js.Identifier name='color' />
+          {';'}
+        </js.TemplateLiteral>
+      </js.TaggedTemplateExpression>
+    ) as js.TaggedTemplateExpression;
+    expect(styled.format()).toBe('styled.div`color: ${color};`');
+    expect(styled.quasis().size()).toBe(2);
+    expect(styled.expressions().at(0).format()).toBe('color');
+  });
+
+  it('Tagged template text', () => {
+    const node = JsNode.fromModuleCode('const q = gql`\n  query { user(id: ${id}) { name } }\n`;');
+    const query = node.findFirstChildOfType(js.TaggedTemplateExpression);
+    expect(query.text()).toBe('\n  query { user(id: ${0}) { name } }\n');
+    query.setText('query { user(id: ${0}) { name, email } }');
+    expect(node.format()).toBe('const q = gql`query { user(id: ${id}) { name, email } }`;');
+    expect(() => query.setText('query { user }')).toThrowError(/placeholder/);
+  });
+
+  it('ObjectPattern', () => {
+    const pattern = (
+      <js.ObjectPattern>
+        {'a'}
+        <js.Property key='b' value={<js.Identifier name='c' /> as js.Identifier} />
+      </js.ObjectPattern>
+    ) as js.ObjectPattern;
+    expect(pattern.formatStripped()).toBe('{a,b: c}');
+    expect(pattern.keys()).toEqual(['a', 'b']);
+    expect(pattern.names()).toEqual(['a', 'c']);
+    pattern.addKey('d', { defaultValue: 1 }).addKey('e', { name: 'f' }).removeKey('a');
+    expect(pattern.formatStripped()).toBe('{b: c,d = 1,e: f}');
+    expect(pattern.findProperty('a')).toBeUndefined();
+  });
+
+  it('ArrayPattern', () => {
+    const pattern = (
+      <js.ArrayPattern>
+        {'a'}
+        <js.AssignmentPattern left='b' right={2} />
+        <js.RestElement argument='c' />
+      </js.ArrayPattern>
+    ) as js.ArrayPattern;
+    expect(pattern.format()).toBe('[a, b = 2, ...c]');
+    expect(pattern.names()).toEqual(['a', 'b', 'c']);
+    expect(pattern.elements().size()).toBe(3);
+    pattern.setDefault(0, 'x').setDefault(1, 3);
+    expect(pattern.format()).toBe('[a = "x", b = 3, ...c]');
+    expect(() => pattern.setDefault(2, 1)).toThrowError(/No element/);
+  });
+
+  it('RestElement and AssignmentPattern', () => {
+    const rest = (<js.RestElement argument='args' />) as js.RestElement;
+    expect(rest.format()).toBe('...args');
+    expect(rest.argument().format()).toBe('args');
+
+    const assignment = (
+      <js.AssignmentPattern>
+        <js.ObjectPattern>{'a'}</js.ObjectPattern>
+        <js.ObjectExpression />
+      </js.AssignmentPattern>
+    ) as js.AssignmentPattern;
+    expect(assignment.formatStripped()).toBe('{a} = {}');
+    expect(assignment.left().type()).toBe('ObjectPattern');
+    expect(assignment.right().type()).toBe('ObjectExpression');
+    expect(assignment.names()).toEqual(['a']);
+  });
+
+  it('Function parameter patterns', () => {
+    const fn = (
+      <js.ArrowFunctionExpression body='a'>
+        <js.ObjectPattern>{'a'}</js.ObjectPattern>
+        <js.RestElement argument='rest' />
+      </js.ArrowFunctionExpression>
+    ) as js.ArrowFunctionExpression;
+    expect(fn.formatStripped()).toBe('({a},...rest) => a');
+  });
+
+  it('Destructured props', () => {
+    const node = JsNode.fromModuleCode([
+      'const Foo = ({ title, size = 1, style: { color } }, [first, , last]) => null;'
+    ].join('\n'));
+    const pattern = node.findFirstChildOfType(js.ObjectPattern);
+    expect(pattern.keys()).toEqual(['title', 'size', 'style']);
+    expect(pattern.names()).toEqual(['title', 'size', 'color']);
+    expect(node.findFirstChildOfType(js.ArrayPattern).elements().map(e => e.format()))
+      .toEqual(['first', 'last']);
+    expect(node.findChildrenOfType(js.AssignmentPattern).at(0).right().format()).toBe('1');
+    pattern.setDefault('title', 'Untitled').setDefault('size', 2).removeDefault('style');
+    expect(node.format()).toBe(
+      'const Foo = ({ title = "Untitled", size = 2, style: { color } }, [first, , last]) => null;');
+    pattern.addKey('onClick').removeKey('style');
+    expect(pattern.keys()).toEqual(['title', 'size', 'onClick']);
+  });
+
+  it('SpreadElement', () => {
+    const spread = (<js.SpreadElement argument='args' />) as js.SpreadElement;
+    expect(spread.format()).toBe('...args');
+    expect(spread.argument().format()).toBe('args');
+    const call = (
+      <js.CallExpression callee='f'>
+        <js.Literal value={1} />
+        <js.SpreadElement argument='args' />
+      </js.CallExpression>
+    );
+    expect(call.format()).toBe('f(1, ...args)');
+    const array = (
+      <js.ArrayExpression>
+        <js.SpreadElement argument='xs' />
+        <js.Identifier name='y' />
+      </js.ArrayExpression>
+    );
+    expect(array.format()).toBe('[...xs, y]');
+    const newExpression = (
+      <js.NewExpression callee='Foo'>
+        <js.SpreadElement>
+          <js.CallExpression callee='getArgs' />
+        </js.SpreadElement>
+      </js.NewExpression>
+    );
+    expect(newExpression.format()).toBe('new Foo(...getArgs())');
+  });
+
+  it('SpreadProperty', () => {
+    const reducer = (
+      <js.ObjectExpression>
+        <js.SpreadProperty argument='state' />
+        <js.Property key='foo' value={1} />
+      </js.ObjectExpression>
+    );
+    expect(reducer.formatStripped()).toBe('{...state,foo: 1}');
+    const property = reducer.findFirstChildOfType(js.SpreadProperty);
+    expect(property.argument().format()).toBe('state');
+  });
+
+  it('JSXSpreadAttribute', () => {
+    const element = (
+      <js.JSXElement name='div'>
+        <js.JSXSpreadAttribute argument='props' />
+        <js.JSXAttribute name='id' value='foo' />
+      </js.JSXElement>
+    );
+    expect(element.format()).toBe('<div {...props} id="foo"></div>');
+  });
+
+  it('Parsed spreads', () => {
+    const node = JsNode.fromModuleCode([
+      'f(...args);',
+      'const xs = [...ys, 1];',
+      'const el = <div {...props} />;'
+    ].join('\n'));
+    expect(node.findChildrenOfType(js.SpreadElement).map(s => s.argument().format()))
+      .toEqual(['args', 'ys']);
+    const attribute = node.findFirstChildOfType(js.JSXSpreadAttribute);
+    expect(attribute.argument().format()).toBe('props');
+  });
+
+  it('Program exports', () => {
+    const program = JsNode.fromModuleCode([
+      'export { a as b, c };',
+      'export const d = 1, e = 2;',
+      'export default class Foo {}',
+      'export * from "./all";'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    expect(program.exports()).toEqual(['b', 'c', 'd', 'e', 'default']);
+  });
+
+  it('Program addExport', () => {
+    const program = JsNode.fromModuleCode([
+      '// A component',
+      'class Foo {}',
+      'const bar = 1, baz = 2;',
+      'function qux() {}'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    program.addExport('Foo').addExport('bar').addExport('baz').addExport('bar');
+    program.addExport('qux', { default: true }).addExport('qux', { default: true });
+    expect(program.format()).toBe([
+      '// A component',
+      'export class Foo {}',
+      '',
+      'const bar = 1, baz = 2;',
+      'export default function qux() {}',
+      'export { bar, baz };'
+    ].join('\n'));
+    expect(() => program.addExport('bar', { default: true })).toThrowError(/default export/);
+    expect(() => program.addExport('nope')).toThrowError(/not declared/);
+    expect(() => program.addExport('nope', { default: true })).toThrowError(/not declared/);
+    const imports = JsNode.fromModuleCode([
+      'import React from "react";',
+      'function foo() { const a = 1; }'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    expect(() => imports.addExport('a')).toThrowError(/not declared/);
+    expect(imports.addExport('React').format()).toContain('export { React };');
+  });
+
+  it('Program makeDefaultExport', () => {
+    const program = JsNode.fromModuleCode([
+      'export default class Foo {}',
+      'export function bar() {}',
+      'const baz = 1;'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    const bar = program.findFirstChildOfType(js.FunctionDeclaration);
+    const defaultExport = program.makeDefaultExport(bar);
+    expect(defaultExport.declaration().type()).toBe('FunctionDeclaration');
+    expect(program.makeDefaultExport(defaultExport.declaration()).node)
+      .toBe(defaultExport.node);
+    expect(program.format()).toBe([
+      'export class Foo {}',
+      'export default function bar() {}',
+      'const baz = 1;'
+    ].join('\n'));
+    program.makeDefaultExport(program.findFirstChildOfType(js.VariableDeclaration));
+    expect(program.exports()).toEqual(['Foo', 'bar', 'default']);
+    expect(program.format()).toBe([
+      'export class Foo {}',
+      'export function bar() {}',
+      'const baz = 1;',
+      'export default baz;'
+    ].join('\n'));
+    expect(() => program.makeDefaultExport(program.findFirstChildOfType(js.ClassBody)))
+      .toThrowError(/top-level/);
+  });
+
+  it('Program removeExport', () => {
+    const program = JsNode.fromModuleCode([
+      'export { a, b };',
+      '// Foo',
+      'export class Foo {}',
+      'export const c = 1, d = 2;',
+      'export default Foo;'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    program.removeExport('a').removeExport('Foo').removeExport('d').removeExport('default');
+    expect(program.exports()).toEqual(['b', 'c']);
+    program.removeExport('b');
+    expect(program.format()).toBe([
+      '// Foo',
+      'class Foo {}',
+      '',
+      'export const c = 1;',
+      'const d = 2;'
+    ].join('\n'));
+  });
+
+  it('Program ensureImport', () => {
+    const program = JsNode.fromModuleCode([
+      'import { a } from "x";',
+      'import * as y from "y";',
+      'foo();'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    const ensure = () => program
+      .ensureImport('x', { default: 'X', named: ['a', 'b'] })
+      .ensureImport('y', { named: ['c'] })
+      .ensureImport('z', { namespace: 'z', named: ['d'] })
+      .ensureImport('./style.css');
+    ensure();
+    const code = [
+      'import X, { a, b } from "x";',
+      'import * as y from "y";',
+      'import { c } from "y";',
+      'import * as z from "z";',
+      'import { d } from "z";',
+      'import "./style.css";',
+      'foo();'
+    ].join('\n');
+    expect(program.format()).toBe(code);
+    ensure();
+    expect(program.format()).toBe(code);
+    expect(program.imports('z').size()).toBe(2);
+    expect(() => program.ensureImport('x', { default: 'Y' })).toThrowError(/imported as "X"/);
+  });
+
+  it('Program ensureImport without imports', () => {
+    const program = JsNode.fromModuleCode('"use strict";\nfoo();').findFirstChildOfType(js.Program);
+    program.ensureImport('x', { default: 'x' });
+    expect(program.format()).toBe('"use strict";\nimport x from "x";\nfoo();');
+  });
+
+  it('Program ensureImport with names in use', () => {
+    const program = JsNode.fromModuleCode([
+      'import { a as b } from "m";',
+      'const c = 1;',
+      'function f() { const d = 1; }'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    expect(() => program.ensureImport('m', { named: ['b'] })).toThrowError(/already declared/);
+    expect(() => program.ensureImport('n', { named: ['c'] })).toThrowError(/already declared/);
+    expect(() => program.ensureImport('n', { default: 'c' })).toThrowError(/already declared/);
+    program.ensureImport('m', { named: ['a', 'd'] });
+    expect(program.format().split('\n')[0]).toBe('import { a as b, a, d } from "m";');
+  });
+
+  it('Program removeImport', () => {
+    const program = JsNode.fromModuleCode([
+      'import X, { a, b } from "x";',
+      'import { c } from "y";',
+      'import "x";'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    program.removeImport('x', ['X', 'b']).removeImport('y', ['c']);
+    expect(program.format()).toBe('import { a } from "x";\nimport "x";');
+    program.removeImport('x');
+    expect(program.imports().size()).toBe(0);
+  });
+
+  it('Program removeUnusedImports', () => {
+    const program = JsNode.fromModuleCode([
+      'import React, { Component } from "react";',
+      'import { a, b } from "x";',
+      'import * as y from "y";',
+      'import "./style.css";',
+      'const el = <div>{a}</div>;'
+    ].join('\n')).findFirstChildOfType(js.Program);
+    program.removeUnusedImports();
+    expect(program.format()).toBe([
+      'import React from "react";',
+      'import { a } from "x";',
+      'import "./style.css";',
+      'const el = <div>{a}</div>;'
+    ].join('\n'));
+  });
+});
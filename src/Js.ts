@@ -9,8 +9,12 @@ import {
   JsNodeList,
   GenericJsNode,
   JsNodeProps,
-  JsNodeMeta
+  JsNodeMeta,
+  WrapInTryOptions
 } from './JsNode';
+import { Binding, isReference } from './Scope';
+import { nodesEqual } from './Equality';
+import { babylonParser } from './Babylon';
 import { ast } from '../deps/bundle';
 
 const b = ast.builders;
@@ -42,6 +46,28 @@ export class File extends JsNode<ast.File, FileProps> {
 
 export type ProgramProps = JsNodeProps;
 
+export type EnsureImportOptions = {
+  /**
+   * Local name of the default import.
+   */
+  default?: string,
+  /**
+   * Names of named imports, imported under the same name.
+   */
+  named?: string[],
+  /**
+   * Local name of a namespace import, e.g. "utils" for "import * as utils".
+   */
+  namespace?: string
+};
+
+export type AddExportOptions = {
+  /**
+   * Makes the name the default export. Defaults to false.
+   */
+  default?: boolean
+};
+
 @JsNode.registerType()
 @JsContainerNode()
 export class Program
@@ -58,6 +84,257 @@ export class Program
   append: (node: GenericStatement) => this;
   insert: (index: number, node: GenericStatement) => this;
   prepend: (node: GenericStatement) => this;
+
+  /**
+   * Returns the import declarations, optionally only those of a source.
+   */
+  imports(source?: string): JsNodeList<ImportDeclaration> {
+    return this.findChildrenOfType(ImportDeclaration)
+      .filter(declaration => source === undefined || declaration.source() === source);
+  }
+
+  /**
+   * Makes sure the module imports the given names from a source. Missing
+   * specifiers are added to existing imports of the source where possible;
+   * otherwise a new import is added after the last import of the module.
+   * Calling it again with the same options does not change anything. Throws
+   * if a name to import is already declared at the top level of the module,
+   * including by an import under a different name.
+   */
+  ensureImport(source: string, options: EnsureImportOptions = {}): this {
+    this.repair();
+    const declarations: ast.ImportDeclaration[] = this.node.body.filter(s =>
+      s.type === 'ImportDeclaration' && s.source.value === source);
+    const missing = buildMissingImportSpecifiers(source,
+      [].concat(...declarations.map(d => d.specifiers)), options);
+    const declared = [].concat(...this.node.body.map(getTopLevelNames));
+    Object.keys(missing).forEach(type => missing[type].forEach(specifier => {
+      if (declared.indexOf(specifier.local.name) >= 0) {
+        throw new Error(
+          `Can not import "${specifier.local.name}" from "${source}", the name is already declared`);
+      }
+    }));
+    const has = (declaration: ast.ImportDeclaration, type: string) =>
+      declaration.specifiers.some(s => s.type === type);
+    // Named and namespace imports can not be combined in one declaration
+    const targets = {
+      ImportDefaultSpecifier: declarations.find(d => !has(d, 'ImportDefaultSpecifier')),
+      ImportNamespaceSpecifier: declarations.find(d =>
+        !has(d, 'ImportNamespaceSpecifier') && !has(d, 'ImportSpecifier')),
+      ImportSpecifier: declarations.find(d => !has(d, 'ImportNamespaceSpecifier'))
+    };
+    const remaining: ast.Node[][] = [[]];
+    Object.keys(missing).forEach(type => missing[type].forEach(specifier => {
+      const target = targets[type];
+      if (!target) {
+        const last = remaining[remaining.length - 1];
+        if (type === 'ImportSpecifier' && last.some(s => s.type === 'ImportNamespaceSpecifier')) {
+          remaining.push([specifier]);
+        } else {
+          last.push(specifier);
+        }
+      } else if (type === 'ImportDefaultSpecifier') {
+        // The default import has to come first
+        target.specifiers.unshift(specifier);
+      } else {
+        target.specifiers.push(specifier);
+      }
+    }));
+    const body = this._path.get('body');
+    let index = getImportInsertionIndex(this.node.body);
+    remaining.filter(specifiers => specifiers.length > 0).forEach(specifiers =>
+      body.insertAt(index++, b.importDeclaration(specifiers, b.literal(source))));
+    if (declarations.length === 0 && remaining[0].length === 0) {
+      // An import for side effects only, e.g. of a style sheet
+      body.insertAt(index, b.importDeclaration([], b.literal(source)));
+    }
+    return this;
+  }
+
+  /**
+   * Removes the imports of a source. If names are given, only the specifiers
+   * declaring these local names are removed, along with declarations that
+   * become empty.
+   */
+  removeImport(source: string, names?: string[]): this {
+    this.repair();
+    const body = this._path.get('body');
+    for (let index = this.node.body.length - 1; index >= 0; index--) {
+      const statement = this.node.body[index];
+      if (statement.type !== 'ImportDeclaration' || statement.source.value !== source) {
+        continue;
+      }
+      if (names) {
+        removeImportSpecifiers(body.get(index), s => names.indexOf(s.local.name) >= 0);
+      } else {
+        body.get(index).prune();
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Removes import specifiers whose names are never referenced, along with
+   * declarations that become empty. Imports for side effects only, like
+   * "import './style.css'", are kept.
+   */
+  removeUnusedImports(): this {
+    this.repair();
+    const body = this._path.get('body');
+    // JSX compiles to React.createElement(), so React is used implicitly
+    const hasJsx = this.descendants().has(node => /^JSX/.test(node.type()));
+    for (let index = this.node.body.length - 1; index >= 0; index--) {
+      const declaration = body.get(index);
+      if (declaration.value.type !== 'ImportDeclaration') {
+        continue;
+      }
+      removeImportSpecifiers(declaration, (specifier, path) => {
+        if (hasJsx && specifier.local.name === 'React') {
+          return false;
+        }
+        const binding = Binding.fromPath(path.get('local'));
+        return !!binding && binding.references().size() === 0;
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Returns the names exported by the module, with "default" for the default
+   * export. Names re-exported by "export * from" are not known and therefore
+   * not included.
+   */
+  exports(): string[] {
+    return [].concat(...this.node.body.map(getExportedNames));
+  }
+
+  /**
+   * Exports a name declared in the module. A function, class or variable
+   * declaration of the name is exported in place, otherwise the name is added
+   * to an existing "export { ... }" or a new one. Names that are exported
+   * already are left alone. Throws if the name is neither declared nor
+   * imported at the top level of the module.
+   */
+  addExport(name: string, options: AddExportOptions = {}): this {
+    this.repair();
+    const body = this._path.get('body');
+    const statements = this.node.body;
+    const index = statements.findIndex(statement =>
+      isExportableDeclaration(statement) && getDeclaredNames(statement).indexOf(name) >= 0);
+    const declaration = statements[index];
+    if ([].concat(...statements.map(getTopLevelNames)).indexOf(name) < 0) {
+      throw new Error(`Can not export "${name}", it is not declared at the top level of the module`);
+    }
+    if (options.default) {
+      const defaultExport = statements.find(s => s.type === 'ExportDefaultDeclaration');
+      if (defaultExport) {
+        if (getDefaultExportName(defaultExport) !== name) {
+          throw new Error(`Can not export "${name}" as default, the module has a default export`);
+        }
+        return this;
+      }
+      if (declaration && declaration.type !== 'VariableDeclaration') {
+        replaceStatement(body.get(index), b.exportDefaultDeclaration(declaration));
+      } else {
+        body.push(b.exportDefaultDeclaration(b.identifier(name)));
+      }
+      return this;
+    }
+    if (this.exports().indexOf(name) >= 0) {
+      return this;
+    }
+    if (declaration && getDeclaredNames(declaration).length === 1) {
+      replaceStatement(body.get(index), b.exportNamedDeclaration(declaration, [], null));
+      return this;
+    }
+    const specifier = b.exportSpecifier(b.identifier(name), b.identifier(name));
+    const list = statements.filter(s =>
+      s.type === 'ExportNamedDeclaration' && !s.declaration && !s.source).pop();
+    if (list) {
+      list.specifiers.push(specifier);
+    } else {
+      body.push(b.exportNamedDeclaration(null, [specifier], null));
+    }
+    return this;
+  }
+
+  /**
+   * Makes a top-level function, class or variable declaration the default
+   * export. Functions and classes are exported in place (replacing a named
+   * export of the same declaration), variables are exported by a statement
+   * following the declaration. A previous default export that declares a
+   * name is kept as a named export.
+   */
+  makeDefaultExport(node: GenericJsNode): ExportDefaultDeclaration {
+    node.repair();
+    const declaration = node.node;
+    let statement = node.path;
+    if (statement.parent && /^Export(Named|Default)Declaration$/.test(statement.parent.value.type)) {
+      statement = statement.parent;
+    }
+    if (!statement.parent || statement.parent.value !== this.node) {
+      throw new Error('Can only export top-level declarations');
+    }
+    const names = isExportableDeclaration(declaration) ? getDeclaredNames(declaration) : [];
+    if (!(declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration' ||
+      declaration.type === 'VariableDeclaration' && names.length === 1)) {
+      throw new Error(
+        'Can only make a function, class or declaration of a single variable the default export');
+    }
+    const body = this.repair()._path.get('body');
+    const statements = this.node.body;
+    const defaultIndex = statements.findIndex(s => s.type === 'ExportDefaultDeclaration');
+    if (defaultIndex >= 0) {
+      const defaultExport = statements[defaultIndex];
+      if (defaultExport === statement.value || getDefaultExportName(defaultExport) === names[0]) {
+        return JsNode.fromPath<ExportDefaultDeclaration>(body.get(defaultIndex));
+      }
+      const previousName = getDefaultExportName(defaultExport);
+      if (!previousName) {
+        throw new Error('Can not replace a default export that does not declare a name');
+      }
+      replaceStatement(body.get(defaultIndex), defaultExport.declaration.type === 'Identifier' ?
+        b.exportNamedDeclaration(null, [b.exportSpecifier(
+          b.identifier(previousName), b.identifier(previousName))], null) :
+        b.exportNamedDeclaration(defaultExport.declaration, [], null));
+    }
+    const index = Number(statement.name);
+    if (declaration.type === 'VariableDeclaration') {
+      body.insertAt(index + 1, b.exportDefaultDeclaration(b.identifier(names[0])));
+      return JsNode.fromPath<ExportDefaultDeclaration>(body.get(index + 1));
+    }
+    replaceStatement(body.get(index), b.exportDefaultDeclaration(declaration));
+    return JsNode.fromPath<ExportDefaultDeclaration>(body.get(index));
+  }
+
+  /**
+   * Removes the export of a name, or the default export for "default".
+   * Exported declarations stay in the module, only the export is removed.
+   */
+  removeExport(name: string): this {
+    this.repair();
+    const body = this._path.get('body');
+    for (let index = this.node.body.length - 1; index >= 0; index--) {
+      const statement = this.node.body[index];
+      if (statement.type === 'ExportDefaultDeclaration' && name === 'default') {
+        if (getDefaultExportName(statement) && statement.declaration.type !== 'Identifier') {
+          replaceStatement(body.get(index), statement.declaration);
+        } else {
+          body.get(index).prune();
+        }
+      } else if (statement.type === 'ExportNamedDeclaration' && statement.declaration) {
+        removeDeclarationExport(body.get(index), name);
+      } else if (statement.type === 'ExportNamedDeclaration') {
+        const specifiers = statement.specifiers.filter(s => s.exported.name !== name);
+        if (specifiers.length === 0 && statement.specifiers.length > 0) {
+          body.get(index).prune();
+        } else {
+          statement.specifiers = specifiers;
+        }
+      }
+    }
+    return this;
+  }
 }
 
 /*========================================================================
@@ -80,7 +357,19 @@ export type StatementProps = JsNodeProps;
 
 @JsNode.registerType()
 export class Statement<T extends ast.Statement, P extends StatementProps>
-  extends JsNode<T, P> {}
+  extends JsNode<T, P> {
+
+  /**
+   * Replaces this statement with a try statement that contains it. See
+   * JsNodeList.wrapInTry().
+   */
+  wrapInTry(options?: WrapInTryOptions): TryStatement {
+    const list = JsNodeList.fromPaths([this.repair().path]);
+    const tryStatement = list.wrapInTry<TryStatement>(options);
+    this._path = list.first().path;
+    return tryStatement;
+  }
+}
 
 export type GenericStatement = Statement<ast.Statement, StatementProps>;
 
@@ -186,6 +475,15 @@ export class VariableDeclarator
   init(): GenericExpression {
     return this.getNodeForProp<GenericExpression>('init');
   }
+
+  /**
+   * Renames the declared variable and all references to it. See
+   * Identifier.rename().
+   */
+  rename(newName: string): this {
+    this.id().rename(newName);
+    return this;
+  }
 }
 
 /*========================================================================
@@ -242,6 +540,74 @@ export class Identifier extends Expression<ast.Identifier, IdentifierProps> {
   set name(value: string) {
     this.node.name = value;
   }
+
+  /**
+   * Returns the binding this identifier refers to, or undefined if the
+   * identifier is free or not a variable reference.
+   */
+  binding(): Binding {
+    return Binding.fromPath(this.path);
+  }
+
+  /**
+   * Returns the identifier that declares the variable this identifier refers
+   * to.
+   */
+  declaration(): Identifier {
+    const binding = this.binding();
+    if (binding) {
+      return binding.declaration<Identifier>();
+    }
+  }
+
+  /**
+   * Returns all identifiers referring to the same variable, excluding the
+   * declaration.
+   */
+  references(): JsNodeList<Identifier> {
+    const binding = this.binding();
+    return binding ? binding.references<Identifier>() : new JsNodeList<Identifier>();
+  }
+
+  /**
+   * Returns true if the variable this identifier refers to hides a variable
+   * with the same name in an enclosing scope.
+   */
+  isShadowed(): boolean {
+    const binding = this.binding();
+    return !!binding && !!binding.shadows();
+  }
+
+  /**
+   * Returns true if the identifier refers to a variable that isn't declared
+   * anywhere in the AST.
+   */
+  isFree(): boolean {
+    return isReference(this.path) && !this.binding();
+  }
+
+  /**
+   * Returns true if the identifier refers to a variable in the global scope,
+   * either declared or free.
+   */
+  isGlobal(): boolean {
+    const binding = this.binding();
+    return binding ? binding.isGlobal() : this.isFree();
+  }
+
+  /**
+   * Renames the variable this identifier refers to, updating its declaration
+   * and all of its references. Throws a RenameCollisionError if the new name
+   * would collide with another variable.
+   */
+  rename(newName: string): this {
+    const binding = this.binding();
+    if (!binding) {
+      throw new Error(`Can not rename "${this.name}" since it is not declared`);
+    }
+    binding.rename(newName);
+    return this;
+  }
 }
 
 /*========================================================================
@@ -262,7 +628,7 @@ export class CallExpression
       convert: b.identifier
     },
     args: {
-      fromChildren: [Literal, Identifier, Expression]
+      fromChildren: [Literal, Identifier, Expression, SpreadElement]
     }
   };
 
@@ -300,10 +666,10 @@ export class FunctionDeclaration
     params: {
       fromChildren: [
         Identifier,
-        // ObjectPattern,
-        // ArrayPattern,
-        // RestElement,
-        // AssignmentPattern,
+        ObjectPattern,
+        ArrayPattern,
+        RestElement,
+        AssignmentPattern,
         MemberExpression
       ]
     }
@@ -315,6 +681,30 @@ export class FunctionDeclaration
   append: (node: GenericStatement) => this;
   insert: (index: number, node: GenericStatement) => this;
   prepend: (node: GenericStatement) => this;
+
+  params() {
+    return this.getNodesForProp<Pattern>('params');
+  }
+
+  body() {
+    return this.getNodeForProp<GenericBlockStatement>('body');
+  }
+
+  /**
+   * Always false, since only arrow functions can have expression bodies. See
+   * ArrowFunctionExpression.isExpressionBody().
+   */
+  isExpressionBody(): boolean {
+    return false;
+  }
+
+  /**
+   * Does nothing, since only arrow functions can have expression bodies. See
+   * ArrowFunctionExpression.toBlockBody().
+   */
+  toBlockBody(): this {
+    return this;
+  }
 }
 
 /*========================================================================
@@ -344,10 +734,10 @@ export class FunctionExpression
     params: {
       fromChildren: [
         Identifier,
-        // ObjectPattern,
-        // ArrayPattern,
-        // RestElement,
-        // AssignmentPattern,
+        ObjectPattern,
+        ArrayPattern,
+        RestElement,
+        AssignmentPattern,
         MemberExpression
       ]
     }
@@ -360,9 +750,109 @@ export class FunctionExpression
     return this.getNodesForProp<Pattern>('params');
   }
 
+  body() {
+    return this.getNodeForProp<GenericBlockStatement>('body');
+  }
+
+  /**
+   * Always false, since only arrow functions can have expression bodies. See
+   * ArrowFunctionExpression.isExpressionBody().
+   */
+  isExpressionBody(): boolean {
+    return false;
+  }
+
+  /**
+   * Does nothing, since only arrow functions can have expression bodies. See
+   * ArrowFunctionExpression.toBlockBody().
+   */
+  toBlockBody(): this {
+    return this;
+  }
+}
+
+/*========================================================================
+                        Arrow Function Expression
+=========================================================================*/
+
+export type ArrowFunctionExpressionProps = {
+  body?: GenericExpression | GenericBlockStatement | string
+};
+
+@JsNode.registerType()
+export class ArrowFunctionExpression
+  extends Expression<ast.ArrowFunctionExpression, ArrowFunctionExpressionProps> {
+
+  protected meta: JsNodeMeta = {
+    body: {
+      fromProp: p => p,
+      fromChild: [BlockStatement],
+      convert: b.identifier,
+      default: null
+    },
+    params: {
+      fromChildren: [
+        Identifier,
+        ObjectPattern,
+        ArrayPattern,
+        RestElement,
+        AssignmentPattern,
+        MemberExpression
+      ]
+    }
+  };
+
+  protected builder = (body, params) => b.arrowFunctionExpression(
+    params, body || b.blockStatement([]), !!body && body.type !== 'BlockStatement');
+
+  params() {
+    return this.getNodesForProp<Pattern>('params');
+  }
+
   body() {
     return this.getNodeForProp<GenericBlockStatement | GenericExpression>('body');
   }
+
+  /**
+   * Returns true if the body is an expression instead of a block, e.g.
+   * "x => x * 2".
+   */
+  isExpressionBody(): boolean {
+    return this.node.body.type !== 'BlockStatement';
+  }
+
+  /**
+   * Converts an expression body to a block that returns the expression, e.g.
+   * "x => x * 2" to "x => { return x * 2; }", so statements can be added.
+   */
+  toBlockBody(): this {
+    this.repair();
+    if (this.isExpressionBody()) {
+      this._path.get('body').replace(b.blockStatement([b.returnStatement(this.node.body)]));
+      this.node.expression = false;
+    }
+    return this;
+  }
+
+  /**
+   * Converts a block body that consists of a single return statement to an
+   * expression body, e.g. "x => { return x * 2; }" to "x => x * 2". Throws
+   * if the block contains anything else.
+   */
+  toExpressionBody(): this {
+    this.repair();
+    const body = this.node.body;
+    if (body.type === 'BlockStatement') {
+      const statements = (body as ast.BlockStatement).body;
+      const statement = statements[0] as ast.ReturnStatement;
+      if (statements.length !== 1 || statement.type !== 'ReturnStatement' || !statement.argument) {
+        throw new Error('Can only convert a body with a single return statement to an expression');
+      }
+      this._path.get('body').replace(statement.argument);
+      this.node.expression = true;
+    }
+    return this;
+  }
 }
 
 /*========================================================================
@@ -421,7 +911,7 @@ export class Property
     },
     value: {
       fromProp: p => p,
-      fromChild: ['string', Expression/* Pattern*/],
+      fromChild: ['string', Expression, ObjectPattern, ArrayPattern, AssignmentPattern],
       convert: b.literal
     }
   };
@@ -431,6 +921,47 @@ export class Property
   key(): Identifier {
     return this.getNodeForProp<Identifier>('key');
   }
+
+  value(): GenericExpression | Pattern {
+    return this.getNodeForProp<any>('value');
+  }
+}
+
+export type ObjectPropertyProps = {
+  key: LiteralValue | Identifier,
+  value?: LiteralValue | FunctionExpression | Literal,
+  computed?: boolean
+};
+
+/**
+ * The equivalent of Property in the AST created by babylon.
+ */
+@JsNode.registerType()
+export class ObjectProperty
+  extends JsNode<ast.ObjectProperty, ObjectPropertyProps> {
+
+  protected meta: JsNodeMeta = {
+    key: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier
+    },
+    value: {
+      fromProp: p => p,
+      fromChild: ['string', Expression, ObjectPattern, ArrayPattern, AssignmentPattern],
+      convert: b.literal
+    }
+  };
+
+  protected builder = b.objectProperty;
+
+  key(): Identifier {
+    return this.getNodeForProp<Identifier>('key');
+  }
+
+  value(): GenericExpression | Pattern {
+    return this.getNodeForProp<any>('value');
+  }
 }
 
 /*========================================================================
@@ -445,7 +976,7 @@ export class ObjectExpression
 
   protected meta: JsNodeMeta = {
     properties: {
-      fromChildren: [Property]
+      fromChildren: [Property, SpreadProperty]
     }
   };
 
@@ -484,7 +1015,7 @@ export class ExpressionStatement
 export type ReturnStatementProps = {};
 
 @JsNode.registerType()
-export class ReturnStatement extends JsNode<ast.ReturnStatement, ReturnStatementProps> {
+export class ReturnStatement extends Statement<ast.ReturnStatement, ReturnStatementProps> {
 
   protected meta: JsNodeMeta = {
     expression: {
@@ -722,6 +1253,7 @@ export class ClassBody extends JsNode<ast.ClassBody, ClassBodyProps> {
   protected builder = b.classBody;
 
   createConstructor(): this {
+    this.repair();
     this._path.get('body').unshift(
       b.methodDefinition('constructor',
         b.identifier('constructor'),
@@ -734,12 +1266,14 @@ export class ClassBody extends JsNode<ast.ClassBody, ClassBodyProps> {
         )
       )
     );
-    return this;
+    return this.repair();
   }
 
   addMethod(node: (ast.MethodDefinition | MethodDefinition), index?: number): this {
+    this.repair();
     this._path.get('body').push(node instanceof MethodDefinition ? node.node : node);
-    return this;
+    this.adopt(node, this._path);
+    return this.repair();
   }
 }
 
@@ -838,7 +1372,7 @@ export class NewExpression extends JsNode<ast.NewExpression, NewExpressionProps>
       convert: b.identifier
     },
     args: {
-      fromChildren: [Expression, /*SpreadElement*/]
+      fromChildren: [Expression, SpreadElement]
     }
   };
 
@@ -849,192 +1383,1734 @@ export class NewExpression extends JsNode<ast.NewExpression, NewExpressionProps>
   }
 }
 
-export type Pattern =
-  Identifier /*| ObjectPattern | ArrayPattern | RestElement |
-  AssignmentPattern*/ | MemberExpression;
+/*========================================================================
+                            Patterns
+=========================================================================*/
+
+/**
+ * Returns the names of all variables bound by a pattern, e.g. "a", "c" and
+ * "rest" for "{ a, b: [c], ...rest }".
+ */
+function getPatternNames(node: ast.Node): string[] {
+  switch (node && node.type) {
+    case 'Identifier':
+      return [node.name];
+    case 'ObjectPattern':
+      return [].concat(...node.properties.map(p => getPatternNames(
+        isPatternProperty(p) ? p.value : p.argument)));
+    case 'ArrayPattern':
+      return [].concat(...node.elements.map(getPatternNames));
+    case 'RestElement':
+    case 'RestProperty':
+      return getPatternNames(node.argument);
+    case 'AssignmentPattern':
+      return getPatternNames(node.left);
+    default:
+      return [];
+  }
+}
 
+function buildDefaultValue(value: LiteralValue | GenericJsNode | ast.Node): ast.Node {
+  if (value instanceof JsNode) {
+    return value.node;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof RegExp)) {
+    return value as ast.Node;
+  }
+  return b.literal(value as LiteralValue);
+}
 
 /*========================================================================
-                            Binary Expression
+                            Object Pattern
 =========================================================================*/
 
-export type BinaryOperator = ast.BinaryOperator;
-export type BinaryExpressionProps = ExpressionProps & {
-  operator?: string,
-  left?: string | GenericExpression,
-  right?: LiteralValue | GenericExpression
+export type ObjectPatternProps = {};
+
+export type AddKeyOptions = {
+  /**
+   * Name of the variable, if it differs from the key, e.g. "b" for
+   * "{ a: b }".
+   */
+  name?: string,
+  defaultValue?: LiteralValue | GenericJsNode | ast.Node
 };
 
 @JsNode.registerType()
-export class BinaryExpression extends JsNode<ast.BinaryExpression, BinaryExpressionProps> {
+export class ObjectPattern extends JsNode<ast.ObjectPattern, ObjectPatternProps> {
   protected meta: JsNodeMeta = {
-    operator: {
-      fromProp: p => p,
-      default: '==='
-    },
-    left: {
-      fromProp: p => p,
-      fromChild: [Expression],
-      convert: b.identifier
-    },
-    right: {
-      fromProp: p => p,
-      fromChild: [Expression],
-      convert: b.literal
+    properties: {
+      fromChildren: [Property, 'string'],
+      convert: buildShorthandProperty
     }
   };
 
-  protected builder = b.binaryExpression;
+  protected builder = b.objectPattern;
 
-  get operator() {
-    return this.node.operator;
+  properties(): JsNodeList<Property> {
+    return this.getNodesForProp<Property>('properties');
   }
 
-  set operator(value: BinaryOperator) {
-    this.node.operator = value;
+  /**
+   * Returns the destructured keys, e.g. "a" and "b" for "{ a, b: c }".
+   */
+  keys(): string[] {
+    return this.node.properties
+      .filter(isPatternProperty)
+      .map(p => getPropertyKey(p));
   }
 
-  left() {
-    return this.getNodeForProp<GenericExpression>('left');
+  /**
+   * Returns the names of all variables bound by the pattern, including nested
+   * patterns, e.g. "a" and "c" for "{ a, b: { c } }".
+   */
+  names(): string[] {
+    return getPatternNames(this.node);
   }
 
-  right() {
-    return this.getNodeForProp<GenericExpression>('right');
+  /**
+   * Returns the property for a key, or undefined if the key is not
+   * destructured. This is an ObjectProperty for code parsed by babylon.
+   */
+  findProperty(key: string): Property | ObjectProperty {
+    return this.properties().filter(p => isPatternProperty(p.node) &&
+      getPropertyKey(p.node) === key).first();
+  }
+
+  /**
+   * Destructures another key, e.g. "{ a }" becomes "{ a, b }". Does nothing if
+   * the key is already destructured.
+   */
+  addKey(key: string, options: AddKeyOptions = {}): this {
+    if (this.findProperty(key)) {
+      return this;
+    }
+    const property = buildShorthandProperty(key);
+    if (options.name && options.name !== key) {
+      property.value = b.identifier(options.name);
+      property.shorthand = false;
+    }
+    this.repair();
+    // Rest elements have to come last
+    const properties = this.node.properties;
+    const last = properties[properties.length - 1];
+    const index = last && !isPatternProperty(last) ? properties.length - 1 : properties.length;
+    this._path.get('properties').insertAt(index, property);
+    if (options.defaultValue !== undefined) {
+      this.setDefault(key, options.defaultValue);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a key from the pattern. Does nothing if it is not destructured.
+   */
+  removeKey(key: string): this {
+    const property = this.findProperty(key);
+    if (property) {
+      property.remove();
+    }
+    return this.repair();
+  }
+
+  /**
+   * Sets the default value for a key, e.g. "{ a }" becomes "{ a = 1 }".
+   * Values are converted to literals.
+   */
+  setDefault(key: string, value: LiteralValue | GenericJsNode | ast.Node): this {
+    const property = this.findProperty(key);
+    if (!property) {
+      throw new Error(`Key "${key}" is not destructured`);
+    }
+    const node = property.node;
+    const defaultValue = buildDefaultValue(value);
+    if (node.value.type === 'AssignmentPattern') {
+      property.path.get('value', 'right').replace(defaultValue);
+    } else if (node.shorthand) {
+      property.replace(buildShorthandDefault(key, defaultValue, node.type), { keepComments: true });
+    } else {
+      property.path.get('value').replace(b.assignmentPattern(node.value, defaultValue));
+    }
+    return this.repair();
+  }
+
+  /**
+   * Removes the default value of a key, if there is one.
+   */
+  removeDefault(key: string): this {
+    const property = this.findProperty(key);
+    if (property && property.node.value.type === 'AssignmentPattern') {
+      property.path.get('value').replace(property.node.value.left);
+    }
+    return this.repair();
   }
 }
 
+/**
+ * Creates a property like "a" in "{ a }".
+ */
+function buildShorthandProperty(key: string): ast.Property {
+  const property = b.property('init', b.identifier(key), b.identifier(key));
+  property.shorthand = true;
+  return property;
+}
+
+/**
+ * Creates a property like "a = 1" in "{ a = 1 }". Recast can not print the
+ * default value of newly built shorthand properties, so the property is
+ * parsed and only its default value is replaced, which recast reprints in
+ * place. Babylon is used to create an ObjectProperty, since recast reprints
+ * the entire pattern if the type of a property changes.
+ */
+function buildShorthandDefault(key: string, defaultValue: ast.Node,
+  type: string): GenericJsNode {
+
+  const args = type === 'ObjectProperty' ? { parser: babylonParser } : undefined;
+  const property = JsNode.fromCode(`const { ${key} = 0 } = {};`, args).first()
+    .descend(n => isPatternProperty(n.node));
+  property.findFirstChildOfType(AssignmentPattern).path.get('right').replace(defaultValue);
+  return property;
+}
+
+/**
+ * Returns true for the properties of an object pattern, as opposed to a rest
+ * element. Babylon creates ObjectProperty and RestProperty nodes instead of
+ * Property and RestElement.
+ */
+function isPatternProperty(node: ast.Node): boolean {
+  return node.type === 'Property' || node.type === 'ObjectProperty';
+}
+
+function getPropertyKey(property: ast.Property | ast.ObjectProperty): string {
+  return property.key.type === 'Identifier' ? property.key.name : String(property.key.value);
+}
+
 /*========================================================================
-                             Array Expression
+                            Array Pattern
 =========================================================================*/
 
-export type ArrayExpressionProps = ExpressionProps;
+export type ArrayPatternProps = {};
 
 @JsNode.registerType()
-export class ArrayExpression extends JsNode<ast.ArrayExpression, ArrayExpressionProps> {
-
+export class ArrayPattern extends JsNode<ast.ArrayPattern, ArrayPatternProps> {
   protected meta: JsNodeMeta = {
     elements: {
-      fromChildren: [
-        Expression,
-        // SpreadElement,
-        // RestElement
-      ]
+      fromChildren: [Identifier, ObjectPattern, ArrayPattern, RestElement, AssignmentPattern,
+        'string'],
+      convert: b.identifier
     }
   };
 
-  protected builder = b.arrayExpression;
+  protected builder = b.arrayPattern;
+
+  /**
+   * Returns the elements. Skipped elements, like the second one in
+   * "[a, , b]", are not included.
+   */
+  elements(): JsNodeList<Pattern> {
+    this.repair();
+    return JsNodeList.fromPaths(this.node.elements
+      .map((element, i) => element ? this._path.get('elements', i) : null)
+      .filter(path => path));
+  }
+
+  /**
+   * Returns the names of all variables bound by the pattern, including nested
+   * patterns.
+   */
+  names(): string[] {
+    return getPatternNames(this.node);
+  }
+
+  /**
+   * Sets the default value for the element at the index, e.g. "[a]" becomes
+   * "[a = 1]". Values are converted to literals.
+   */
+  setDefault(index: number, value: LiteralValue | GenericJsNode | ast.Node): this {
+    this.repair();
+    const element = this.node.elements[index];
+    if (!element || element.type === 'RestElement') {
+      throw new Error(`No element at index ${index} to set a default value for`);
+    }
+    const defaultValue = buildDefaultValue(value);
+    if (element.type === 'AssignmentPattern') {
+      this._path.get('elements', index, 'right').replace(defaultValue);
+    } else {
+      this._path.get('elements', index).replace(b.assignmentPattern(element, defaultValue));
+    }
+    return this.repair();
+  }
 }
 
 /*========================================================================
-                            Import Specifier
+                            Rest Element
 =========================================================================*/
 
-export type ImportSpecifierProps = {
-  imported?: string | Identifier,
-  local?: string | Identifier
+export type RestElementProps = {
+  argument?: Identifier | string
 };
 
 @JsNode.registerType()
-export class ImportSpecifier extends JsNode<ast.ImportSpecifier, ImportSpecifierProps> {
+export class RestElement extends JsNode<ast.RestElement, RestElementProps> {
   protected meta: JsNodeMeta = {
-    imported: {
+    argument: {
       fromProp: p => p,
-      fromChild: [Identifier],
-      convert: b.identifier,
-      default: null
-    },
-    local: {
+      fromChild: [Identifier, ObjectPattern, ArrayPattern],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.restElement;
+
+  argument(): Pattern {
+    return this.getNodeForProp<Pattern>('argument');
+  }
+
+  names(): string[] {
+    return getPatternNames(this.node);
+  }
+}
+
+/*========================================================================
+                            Assignment Pattern
+=========================================================================*/
+
+export type AssignmentPatternProps = {
+  left?: Identifier | string,
+  right?: LiteralValue | GenericExpression
+};
+
+@JsNode.registerType()
+export class AssignmentPattern extends JsNode<ast.AssignmentPattern, AssignmentPatternProps> {
+  protected meta: JsNodeMeta = {
+    left: {
+      fromProp: p => p,
+      fromChild: [Identifier, ObjectPattern, ArrayPattern],
+      convert: b.identifier
+    },
+    right: {
+      fromProp: p => p,
+      fromChild: [Expression, NewExpression, ObjectExpression, ArrayExpression],
+      convert: b.literal
+    }
+  };
+
+  protected builder = b.assignmentPattern;
+
+  left(): Pattern {
+    return this.getNodeForProp<Pattern>('left');
+  }
+
+  /**
+   * Returns the default value.
+   */
+  right(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('right');
+  }
+
+  names(): string[] {
+    return getPatternNames(this.node);
+  }
+}
+
+export type Pattern =
+  Identifier | ObjectPattern | ArrayPattern | RestElement |
+  AssignmentPattern | MemberExpression;
+
+
+/*========================================================================
+                            Binary Expression
+=========================================================================*/
+
+export type BinaryOperator = ast.BinaryOperator;
+export type BinaryExpressionProps = ExpressionProps & {
+  operator?: string,
+  left?: string | GenericExpression,
+  right?: LiteralValue | GenericExpression
+};
+
+@JsNode.registerType()
+export class BinaryExpression extends JsNode<ast.BinaryExpression, BinaryExpressionProps> {
+  protected meta: JsNodeMeta = {
+    operator: {
+      fromProp: p => p,
+      default: '==='
+    },
+    left: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.identifier
+    },
+    right: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.literal
+    }
+  };
+
+  protected builder = b.binaryExpression;
+
+  get operator() {
+    return this.node.operator;
+  }
+
+  set operator(value: BinaryOperator) {
+    this.node.operator = value;
+  }
+
+  left() {
+    return this.getNodeForProp<GenericExpression>('left');
+  }
+
+  right() {
+    return this.getNodeForProp<GenericExpression>('right');
+  }
+}
+
+/*========================================================================
+                             Array Expression
+=========================================================================*/
+
+export type ArrayExpressionProps = ExpressionProps;
+
+@JsNode.registerType()
+export class ArrayExpression extends JsNode<ast.ArrayExpression, ArrayExpressionProps> {
+
+  protected meta: JsNodeMeta = {
+    elements: {
+      fromChildren: [
+        Expression,
+        SpreadElement
+      ]
+    }
+  };
+
+  protected builder = b.arrayExpression;
+}
+
+/*========================================================================
+                            Spread Element
+=========================================================================*/
+
+export type SpreadElementProps = {
+  argument?: GenericExpression | string
+};
+
+/**
+ * A spread in arguments or array elements, e.g. "...args" in "f(...args)".
+ */
+@JsNode.registerType()
+export class SpreadElement extends JsNode<ast.SpreadElement, SpreadElementProps> {
+  protected meta: JsNodeMeta = {
+    argument: {
+      fromProp: p => p,
+      fromChild: [Expression, NewExpression, ArrayExpression, ObjectExpression],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.spreadElement;
+
+  argument(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('argument');
+  }
+}
+
+/*========================================================================
+                            Spread Property
+=========================================================================*/
+
+export type SpreadPropertyProps = SpreadElementProps;
+
+/**
+ * A spread in an object, e.g. "...state" in "{ ...state, foo }". Esprima
+ * cannot parse these yet, but they can be built and printed.
+ */
+@JsNode.registerType()
+export class SpreadProperty extends JsNode<ast.SpreadProperty, SpreadPropertyProps> {
+  protected meta: JsNodeMeta = {
+    argument: {
+      fromProp: p => p,
+      fromChild: [Expression, NewExpression, ArrayExpression, ObjectExpression],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.spreadProperty;
+
+  argument(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('argument');
+  }
+}
+
+/*========================================================================
+                            Import Specifier
+=========================================================================*/
+
+export type ImportSpecifierProps = {
+  imported?: string | Identifier,
+  local?: string | Identifier
+};
+
+@JsNode.registerType()
+export class ImportSpecifier extends JsNode<ast.ImportSpecifier, ImportSpecifierProps> {
+  protected meta: JsNodeMeta = {
+    imported: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier,
+      default: null
+    },
+    local: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier,
+      default: null
+    }
+  };
+
+  protected builder = (imported, local) =>
+    b.importSpecifier(imported || local, local || imported);
+
+  imported(): Identifier {
+    return this.getNodeForProp<Identifier>('imported');
+  }
+
+  local(): Identifier {
+    return this.getNodeForProp<Identifier>('local');
+  }
+}
+
+/*========================================================================
+                        Import Default Specifier
+=========================================================================*/
+
+export type ImportDefaultSpecifierProps = {
+  local: string | Identifier
+};
+
+@JsNode.registerType()
+export class ImportDefaultSpecifier
+  extends JsNode<ast.ImportDefaultSpecifier, ImportDefaultSpecifierProps> {
+
+  protected meta: JsNodeMeta = {
+    local: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.importDefaultSpecifier;
+
+  local(): Identifier {
+    return this.getNodeForProp<Identifier>('local');
+  }
+}
+
+/*========================================================================
+                       Import Namespace Specifier
+=========================================================================*/
+
+export type ImportNamespaceSpecifierProps = {
+  local: string | Identifier
+};
+
+@JsNode.registerType()
+export class ImportNamespaceSpecifier
+  extends JsNode<ast.ImportNamespaceSpecifier, ImportNamespaceSpecifierProps> {
+
+  protected meta: JsNodeMeta = {
+    local: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.importNamespaceSpecifier;
+
+  local(): Identifier {
+    return this.getNodeForProp<Identifier>('local');
+  }
+}
+
+/*========================================================================
+                            Import Declaration
+=========================================================================*/
+
+export type ImportDeclarationProps = {
+  source: LiteralValue | Literal
+};
+
+@JsNode.registerType()
+export class ImportDeclaration extends JsNode<ast.ImportDeclaration, ImportDeclarationProps> {
+  protected meta: JsNodeMeta = {
+    source: {
+      fromProp: p => p,
+      fromChild: [Literal],
+      convert: b.literal
+    },
+    specifiers: {
+      fromChildren: [JsNode]
+    }
+  };
+
+  protected builder = (source, specifiers) => b.importDeclaration(specifiers, source);
+
+  source(): string {
+    return this.node.source.value as string;
+  }
+
+  specifiers(): JsNodeList<GenericJsNode> {
+    return JsNodeList.fromPaths(this.repair().path.get('specifiers').map(path => path));
+  }
+
+  /**
+   * Returns the names the import declares in the module.
+   */
+  localNames(): string[] {
+    return this.node.specifiers.map(specifier => specifier.local.name);
+  }
+}
+
+/**
+ * Creates the specifiers for an import that are not in the existing ones.
+ * Throws if a default or namespace import already uses another name.
+ */
+function buildMissingImportSpecifiers(source: string, existing: ast.Node[],
+  options: EnsureImportOptions): { [type: string]: ast.Node[] } {
+
+  const missing = {
+    ImportDefaultSpecifier: [],
+    ImportNamespaceSpecifier: [],
+    ImportSpecifier: []
+  };
+  const single = {
+    ImportDefaultSpecifier: options.default,
+    ImportNamespaceSpecifier: options.namespace
+  };
+  Object.keys(single).filter(type => single[type]).forEach(type => {
+    const specifier = existing.find(s => s.type === type);
+    if (!specifier) {
+      missing[type].push(b[type === 'ImportDefaultSpecifier' ?
+        'importDefaultSpecifier' : 'importNamespaceSpecifier'](b.identifier(single[type])));
+    } else if (specifier.local.name !== single[type]) {
+      throw new Error(
+        `Can not import "${source}" as "${single[type]}", it is imported as "${specifier.local.name}"`);
+    }
+  });
+  (options.named || []).forEach(name => {
+    if (!existing.some(s =>
+      s.type === 'ImportSpecifier' && s.imported.name === name && s.local.name === name)) {
+      missing.ImportSpecifier.push(b.importSpecifier(b.identifier(name), b.identifier(name)));
+    }
+  });
+  return missing;
+}
+
+/**
+ * Returns the index after the last import, or after the directives at the
+ * start of the module (like "use strict") if there are no imports.
+ */
+function getImportInsertionIndex(statements: ast.Statement[]): number {
+  let index = statements.length;
+  while (index > 0 && statements[index - 1].type !== 'ImportDeclaration') {
+    index--;
+  }
+  if (index === 0) {
+    while (index < statements.length && statements[index].type === 'ExpressionStatement' &&
+      statements[index].expression.type === 'Literal' &&
+      typeof statements[index].expression.value === 'string') {
+      index++;
+    }
+  }
+  return index;
+}
+
+/**
+ * Removes the matching specifiers of an import declaration, and the
+ * declaration itself if none are left.
+ */
+function removeImportSpecifiers(declaration: ast.NodePath,
+  predicate: (specifier: ast.Node, path: ast.NodePath) => boolean) {
+
+  const specifiers = declaration.get('specifiers');
+  const count = declaration.value.specifiers.length;
+  for (let index = count - 1; index >= 0; index--) {
+    if (predicate(specifiers.value[index], specifiers.get(index))) {
+      specifiers.get(index).prune();
+    }
+  }
+  if (count > 0 && declaration.value.specifiers.length === 0) {
+    declaration.prune();
+  }
+}
+
+/*========================================================================
+                            Export Specifier
+=========================================================================*/
+
+export type ExportSpecifierProps = {
+  local?: string | Identifier,
+  exported?: string | Identifier
+};
+
+@JsNode.registerType()
+export class ExportSpecifier extends JsNode<ast.ExportSpecifier, ExportSpecifierProps> {
+  protected meta: JsNodeMeta = {
+    local: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier,
+      default: null
+    },
+    exported: {
+      fromProp: p => p,
+      fromChild: [Identifier],
+      convert: b.identifier,
+      default: null
+    }
+  };
+
+  protected builder = (local, exported) =>
+    b.exportSpecifier(local || exported, exported || local);
+
+  local(): Identifier {
+    return this.getNodeForProp<Identifier>('local');
+  }
+
+  exported(): Identifier {
+    return this.getNodeForProp<Identifier>('exported');
+  }
+}
+
+/*========================================================================
+                        Export Named Declaration
+=========================================================================*/
+
+export type ExportNamedDeclarationProps = {
+  source?: LiteralValue | Literal
+};
+
+/**
+ * Exports either a declaration, e.g. "export const foo = 42", or a list of
+ * specifiers, e.g. "export { foo, bar as baz }", optionally from another
+ * module.
+ */
+@JsNode.registerType()
+export class ExportNamedDeclaration
+  extends JsNode<ast.ExportNamedDeclaration, ExportNamedDeclarationProps> {
+
+  protected meta: JsNodeMeta = {
+    declaration: {
+      fromChild: [VariableDeclaration, FunctionDeclaration, ClassDeclaration],
+      default: null
+    },
+    specifiers: {
+      fromChildren: [ExportSpecifier]
+    },
+    source: {
+      fromProp: p => p,
+      fromChild: [Literal],
+      convert: b.literal,
+      default: null
+    }
+  };
+
+  protected builder = b.exportNamedDeclaration;
+
+  declaration(): GenericJsNode {
+    return this.getNodeForProp('declaration');
+  }
+
+  specifiers(): JsNodeList<ExportSpecifier> {
+    return this.findChildrenOfType(ExportSpecifier);
+  }
+
+  exportedNames(): string[] {
+    return getExportedNames(this.node);
+  }
+}
+
+/*========================================================================
+                        Export Default Declaration
+=========================================================================*/
+
+export type ExportDefaultDeclarationProps = {
+  declaration?: string | GenericJsNode
+};
+
+@JsNode.registerType()
+export class ExportDefaultDeclaration
+  extends JsNode<ast.ExportDefaultDeclaration, ExportDefaultDeclarationProps> {
+
+  protected meta: JsNodeMeta = {
+    declaration: {
+      fromProp: p => p,
+      fromChild: [
+        FunctionDeclaration,
+        ClassDeclaration,
+        Expression,
+        NewExpression,
+        ObjectExpression,
+        ArrayExpression
+      ],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.exportDefaultDeclaration;
+
+  declaration(): GenericJsNode {
+    return this.getNodeForProp('declaration');
+  }
+}
+
+/*========================================================================
+                          Export All Declaration
+=========================================================================*/
+
+export type ExportAllDeclarationProps = {
+  source: LiteralValue | Literal
+};
+
+@JsNode.registerType()
+export class ExportAllDeclaration
+  extends JsNode<ast.ExportAllDeclaration, ExportAllDeclarationProps> {
+
+  protected meta: JsNodeMeta = {
+    source: {
+      fromProp: p => p,
+      fromChild: [Literal],
+      convert: b.literal
+    }
+  };
+
+  protected builder = source => b.exportAllDeclaration(null, source);
+
+  source(): string {
+    return this.node.source.value as string;
+  }
+}
+
+function isExportableDeclaration(node: ast.Node): boolean {
+  return node.type === 'FunctionDeclaration' || node.type === 'ClassDeclaration' ||
+    node.type === 'VariableDeclaration';
+}
+
+function getDeclaredNames(node: ast.Node): string[] {
+  if (node.type === 'VariableDeclaration') {
+    return [].concat(...node.declarations.map(d => getPatternNames(d.id)));
+  }
+  return node.id ? [node.id.name] : [];
+}
+
+function getExportedNames(node: ast.Node): string[] {
+  switch (node.type) {
+    case 'ExportDefaultDeclaration':
+      return ['default'];
+    case 'ExportNamedDeclaration':
+      return node.declaration ?
+        getDeclaredNames(node.declaration) :
+        node.specifiers.map(s => s.exported.name);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Returns the names a top-level statement declares in the module scope,
+ * including imported names.
+ */
+function getTopLevelNames(node: ast.Node): string[] {
+  if (node.type === 'ImportDeclaration') {
+    return node.specifiers.map(s => s.local.name);
+  }
+  if ((node.type === 'ExportNamedDeclaration' || node.type === 'ExportDefaultDeclaration') &&
+    node.declaration) {
+    node = node.declaration;
+  }
+  return isExportableDeclaration(node) ? getDeclaredNames(node) : [];
+}
+
+/**
+ * Returns the name of the default export, e.g. "Foo" for "export default Foo"
+ * or "export default class Foo {}", or undefined for anonymous ones.
+ */
+function getDefaultExportName(node: ast.ExportDefaultDeclaration): string {
+  const declaration = node.declaration as ast.Node;
+  if (declaration.type === 'Identifier') {
+    return declaration.name;
+  }
+  if (isExportableDeclaration(declaration)) {
+    return getDeclaredNames(declaration)[0];
+  }
+}
+
+/**
+ * Replaces a statement, keeping its comments attached to the replacement.
+ */
+function replaceStatement(path: ast.NodePath, statement: ast.Node) {
+  const comments = path.value.comments;
+  if (comments && !statement.comments) {
+    statement.comments = comments;
+    delete path.value.comments;
+  }
+  path.replace(statement);
+}
+
+/**
+ * Removes the export of a name from an exported declaration. A variable
+ * declaration of several names is split, so the others stay exported.
+ */
+function removeDeclarationExport(path: ast.NodePath, name: string) {
+  const declaration = path.value.declaration;
+  const names = getDeclaredNames(declaration);
+  if (names.indexOf(name) < 0) {
+    return;
+  }
+  if (names.length === 1) {
+    replaceStatement(path, declaration);
+    return;
+  }
+  const declarators = declaration.declarations.filter(d => getPatternNames(d.id).indexOf(name) >= 0);
+  if (declarators.some(d => getPatternNames(d.id).length > 1)) {
+    throw new Error(`Can not remove the export of "${name}" from a destructuring declaration`);
+  }
+  declaration.declarations = declaration.declarations.filter(d => declarators.indexOf(d) < 0);
+  path.insertAfter(b.variableDeclaration(declaration.kind, declarators));
+}
+
+/*========================================================================
+                            Unary Expression
+=========================================================================*/
+
+export type UnaryExpressionProps = {
+  operator: '!' | 'delete' | 'typeof' | 'void' | '+',
+  argument?: string | GenericExpression
+};
+
+@JsNode.registerType()
+export class UnaryExpression extends Expression<ast.UnaryExpression, UnaryExpressionProps> {
+  protected meta: JsNodeMeta = {
+    operator: {
+      fromProp: p => p
+    },
+    argument: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.unaryExpression;
+}
+
+/*========================================================================
+                            If Statement
+=========================================================================*/
+
+export type IfStatementProps = {
+  test?: GenericExpression
+};
+
+@JsNode.registerType()
+export class IfStatement extends Statement<ast.IfStatement, IfStatementProps> {
+  protected meta: JsNodeMeta = {
+    test: {
+      fromProp: p => p,
+      fromChild: [Expression]
+    },
+    consequent: {
+      fromProp: p => p,
+      fromChild: [Statement],
+      default: () => b.blockStatement([])
+    },
+    alternate: {
+      fromProp: p => p,
+      fromChild: [Statement],
+      default: null
+    }
+  };
+
+  protected builder = b.ifStatement;
+
+  consequent(): GenericStatement {
+    return this.getNodeForProp('consequent') as GenericStatement;
+  }
+}
+
+/*========================================================================
+                            Loop Statements
+=========================================================================*/
+
+/**
+ * Returns the statements in the body of a loop. A body that is a single
+ * statement is wrapped in a block first, so statements can be added to it.
+ */
+function getLoopStatements(node: ast.Node & { body: ast.Statement }): ast.Statement[] {
+  if (node.body.type !== 'BlockStatement') {
+    // Recast takes the line breaks between statements from their original
+    // location, where nothing followed the statement, so statements added
+    // after it would end up on the same line
+    node.body.loc = null;
+    node.body = b.blockStatement([node.body]);
+  }
+  return (node.body as ast.BlockStatement).body;
+}
+
+/**
+ * Creates the left side of a for...in or for...of loop. With a kind, the
+ * identifier is declared in the loop, e.g. "for (const item of items)".
+ */
+function buildLoopLeft(kind: ast.VariableKind, left: ast.Node): ast.Node {
+  if (kind && left.type !== 'VariableDeclaration') {
+    return b.variableDeclaration(kind, [b.variableDeclarator(left, null)]);
+  }
+  return left;
+}
+
+/*========================================================================
+                            For Statement
+=========================================================================*/
+
+export type ForStatementProps = {
+  init?: GenericVariableDeclaration | GenericExpression | string,
+  test?: GenericExpression | string,
+  update?: GenericExpression | string
+};
+
+@JsNode.registerType()
+@JsContainerNode({
+  getChildNodes: function() { return getLoopStatements((this as ForStatement).node); }
+})
+export class ForStatement extends Statement<ast.ForStatement, ForStatementProps> {
+  protected meta: JsNodeMeta = {
+    init: {
+      fromProp: p => p,
+      fromChild: [VariableDeclaration],
+      convert: b.identifier,
+      default: null
+    },
+    test: {
+      fromProp: p => p,
+      convert: b.identifier,
+      default: null
+    },
+    update: {
+      fromProp: p => p,
+      convert: b.identifier,
+      default: null
+    },
+    body: {
+      fromChild: [Statement],
+      default: () => b.blockStatement([])
+    }
+  };
+
+  protected builder = b.forStatement;
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  /**
+   * Returns the initialization, or undefined if there is none.
+   */
+  init(): GenericVariableDeclaration | GenericExpression {
+    return this.node.init ? this.getNodeForProp<any>('init') : undefined;
+  }
+
+  /**
+   * Returns the condition, or undefined if the loop runs forever.
+   */
+  test(): GenericExpression {
+    return this.node.test ? this.getNodeForProp<GenericExpression>('test') : undefined;
+  }
+
+  /**
+   * Returns the update expression, or undefined if there is none.
+   */
+  update(): GenericExpression {
+    return this.node.update ? this.getNodeForProp<GenericExpression>('update') : undefined;
+  }
+
+  body(): GenericStatement {
+    return this.getNodeForProp<GenericStatement>('body');
+  }
+}
+
+/*========================================================================
+                            For In Statement
+=========================================================================*/
+
+export type ForInStatementProps = {
+  kind?: ast.VariableKind,
+  left?: GenericVariableDeclaration | Identifier | MemberExpression | string,
+  right?: GenericExpression | string
+};
+
+@JsNode.registerType()
+@JsContainerNode({
+  getChildNodes: function() { return getLoopStatements((this as ForInStatement).node); }
+})
+export class ForInStatement extends Statement<ast.ForInStatement, ForInStatementProps> {
+  protected meta: JsNodeMeta = {
+    kind: {
+      fromProp: p => p,
+      default: null
+    },
+    left: {
+      fromProp: p => p,
+      fromChild: [VariableDeclaration, Identifier, MemberExpression],
+      convert: b.identifier
+    },
+    right: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.identifier
+    },
+    body: {
+      fromChild: [Statement],
+      default: () => b.blockStatement([])
+    }
+  };
+
+  protected builder = (kind, left, right, body) =>
+    b.forInStatement(buildLoopLeft(kind, left), right, body, false);
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  left(): GenericVariableDeclaration | Pattern {
+    return this.getNodeForProp<any>('left');
+  }
+
+  right(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('right');
+  }
+
+  body(): GenericStatement {
+    return this.getNodeForProp<GenericStatement>('body');
+  }
+}
+
+/*========================================================================
+                            For Of Statement
+=========================================================================*/
+
+export type ForOfStatementProps = ForInStatementProps;
+
+@JsNode.registerType()
+@JsContainerNode({
+  getChildNodes: function() { return getLoopStatements((this as ForOfStatement).node); }
+})
+export class ForOfStatement extends Statement<ast.ForOfStatement, ForOfStatementProps> {
+  protected meta: JsNodeMeta = {
+    kind: {
+      fromProp: p => p,
+      default: null
+    },
+    left: {
+      fromProp: p => p,
+      fromChild: [VariableDeclaration, Identifier, MemberExpression],
+      convert: b.identifier
+    },
+    right: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.identifier
+    },
+    body: {
+      fromChild: [Statement],
+      default: () => b.blockStatement([])
+    }
+  };
+
+  protected builder = (kind, left, right, body) =>
+    b.forOfStatement(buildLoopLeft(kind, left), right, body);
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  left(): GenericVariableDeclaration | Pattern {
+    return this.getNodeForProp<any>('left');
+  }
+
+  right(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('right');
+  }
+
+  body(): GenericStatement {
+    return this.getNodeForProp<GenericStatement>('body');
+  }
+}
+
+/*========================================================================
+                            While Statement
+=========================================================================*/
+
+export type WhileStatementProps = {
+  test?: GenericExpression | string
+};
+
+@JsNode.registerType()
+@JsContainerNode({
+  getChildNodes: function() { return getLoopStatements((this as WhileStatement).node); }
+})
+export class WhileStatement extends Statement<ast.WhileStatement, WhileStatementProps> {
+  protected meta: JsNodeMeta = {
+    test: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.identifier
+    },
+    body: {
+      fromChild: [Statement],
+      default: () => b.blockStatement([])
+    }
+  };
+
+  protected builder = b.whileStatement;
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  test(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('test');
+  }
+
+  body(): GenericStatement {
+    return this.getNodeForProp<GenericStatement>('body');
+  }
+}
+
+/*========================================================================
+                            Do While Statement
+=========================================================================*/
+
+export type DoWhileStatementProps = WhileStatementProps;
+
+@JsNode.registerType()
+@JsContainerNode({
+  getChildNodes: function() { return getLoopStatements((this as DoWhileStatement).node); }
+})
+export class DoWhileStatement extends Statement<ast.DoWhileStatement, DoWhileStatementProps> {
+  protected meta: JsNodeMeta = {
+    body: {
+      fromChild: [Statement],
+      default: () => b.blockStatement([])
+    },
+    test: {
       fromProp: p => p,
-      fromChild: [Identifier],
-      convert: b.identifier,
+      fromChild: [Expression],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.doWhileStatement;
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  test(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('test');
+  }
+
+  body(): GenericStatement {
+    return this.getNodeForProp<GenericStatement>('body');
+  }
+}
+
+/*========================================================================
+                            Try Statement
+=========================================================================*/
+
+export type TryStatementProps = {};
+
+@JsNode.registerType()
+@JsContainerNode({
+  getChildNodes: function() { return (this as TryStatement).node.block.body; }
+})
+export class TryStatement extends Statement<ast.TryStatement, TryStatementProps> {
+  protected meta: JsNodeMeta = {
+    block: {
+      fromChild: [BlockStatement],
+      default: () => b.blockStatement([])
+    },
+    handler: {
+      fromChild: [CatchClause],
+      default: null
+    },
+    finalizer: {
+      fromChild: [BlockStatement],
       default: null
     }
   };
 
-  protected builder = (imported, local) =>
-    b.importSpecifier(imported || local, local || imported);
+  protected builder = b.tryStatement;
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  block(): GenericBlockStatement {
+    return this.getNodeForProp<GenericBlockStatement>('block');
+  }
+
+  /**
+   * Returns the catch clause, or undefined if there is none.
+   */
+  handler(): CatchClause {
+    return this.node.handler ? this.getNodeForProp<CatchClause>('handler') : undefined;
+  }
+
+  /**
+   * Returns the finally block, or undefined if there is none.
+   */
+  finalizer(): GenericBlockStatement {
+    return this.node.finalizer ?
+      this.getNodeForProp<GenericBlockStatement>('finalizer') : undefined;
+  }
 }
 
 /*========================================================================
-                            Import Declaration
+                            Catch Clause
 =========================================================================*/
 
-export type ImportDeclarationProps = {
-  source: LiteralValue | Literal
+export type CatchClauseProps = {
+  param?: Identifier | string
 };
 
 @JsNode.registerType()
-export class ImportDeclaration extends JsNode<ast.ImportDeclaration, ImportDeclarationProps> {
+@JsContainerNode({
+  getChildNodes: function() { return (this as CatchClause).node.body.body; }
+})
+export class CatchClause extends JsNode<ast.CatchClause, CatchClauseProps> {
   protected meta: JsNodeMeta = {
-    source: {
+    param: {
       fromProp: p => p,
-      fromChild: [Literal],
-      convert: b.literal
+      fromChild: [Identifier],
+      convert: b.identifier
     },
-    specifiers: {
-      fromChildren: [JsNode]
+    body: {
+      fromChild: [BlockStatement],
+      default: () => b.blockStatement([])
     }
   };
 
-  protected builder = (source, specifiers) => b.importDeclaration(specifiers, source);
+  protected builder = (param, body) => b.catchClause(param, null, body);
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  param(): Pattern {
+    return this.getNodeForProp<Pattern>('param');
+  }
+
+  body(): GenericBlockStatement {
+    return this.getNodeForProp<GenericBlockStatement>('body');
+  }
 }
 
 /*========================================================================
-                            Unary Expression
+                            Throw Statement
 =========================================================================*/
 
-export type UnaryExpressionProps = {
-  operator: '!' | 'delete' | 'typeof' | 'void' | '+',
-  argument?: string | GenericExpression
+export type ThrowStatementProps = {
+  argument?: GenericExpression | string
 };
 
 @JsNode.registerType()
-export class UnaryExpression extends Expression<ast.UnaryExpression, UnaryExpressionProps> {
+export class ThrowStatement extends Statement<ast.ThrowStatement, ThrowStatementProps> {
   protected meta: JsNodeMeta = {
-    operator: {
-      fromProp: p => p
-    },
     argument: {
+      fromProp: p => p,
+      fromChild: [Expression, NewExpression],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.throwStatement;
+
+  argument(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('argument');
+  }
+}
+
+/*========================================================================
+                            Switch Statement
+=========================================================================*/
+
+export type SwitchStatementProps = {
+  discriminant?: GenericExpression | string
+};
+
+/**
+ * Converts the test of a switch case to a node. Values become literals.
+ */
+function buildCaseTest(test: LiteralValue | GenericJsNode | ast.Node): ast.Node {
+  if (test instanceof JsNode) {
+    return test.node;
+  }
+  if (test !== null && typeof test === 'object' && !(test instanceof RegExp)) {
+    return test as ast.Node;
+  }
+  return b.literal(test as LiteralValue);
+}
+
+export type AddCaseOptions = {
+  /**
+   * Inserts the case before the default case (if there is one) instead of
+   * appending it. Defaults to false.
+   */
+  beforeDefault?: boolean
+};
+
+@JsNode.registerType()
+export class SwitchStatement extends Statement<ast.SwitchStatement, SwitchStatementProps> {
+  protected meta: JsNodeMeta = {
+    discriminant: {
       fromProp: p => p,
       fromChild: [Expression],
       convert: b.identifier
+    },
+    cases: {
+      fromChildren: [SwitchCase]
     }
   };
 
-  protected builder = b.unaryExpression;
+  protected builder = b.switchStatement;
+
+  discriminant(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('discriminant');
+  }
+
+  cases(): JsNodeList<SwitchCase> {
+    return this.getNodesForProp<SwitchCase>('cases', SwitchCase);
+  }
+
+  /**
+   * Returns the case with the given test, or undefined if there is none.
+   * Values match literal tests (e.g. "ADD_TODO" matches case 'ADD_TODO'),
+   * nodes match structurally equal tests (e.g. an identifier ADD_TODO).
+   */
+  findCase(test: LiteralValue | GenericJsNode | ast.Node): SwitchCase {
+    const testNode = buildCaseTest(test);
+    return this.cases()
+      .filter(c => c.node.test && nodesEqual(c.node.test, testNode))
+      .first();
+  }
+
+  /**
+   * Returns the default case, or undefined if there is none.
+   */
+  defaultCase(): SwitchCase {
+    return this.cases().filter(c => c.isDefault()).first();
+  }
+
+  /**
+   * Adds a case with the given test and statements and returns it. Values are
+   * converted to literals; a null test adds a default case.
+   */
+  addCase(test: LiteralValue | GenericJsNode | ast.Node,
+    statements: (GenericStatement | ast.Statement)[] = [],
+    options: AddCaseOptions = {}): SwitchCase {
+
+    const switchCase = b.switchCase(
+      (test === null || test === undefined) ? null : buildCaseTest(test),
+      statements.map(s => this.toAstNode(s)));
+    this.repair();
+    const cases = this.node.cases;
+    const defaultIndex = cases.findIndex(c => !c.test);
+    const index = (options.beforeDefault && defaultIndex >= 0) ? defaultIndex : cases.length;
+    this._path.get('cases').insertAt(index, switchCase);
+    return JsNode.fromPath<SwitchCase>(this.repair()._path.get('cases', index));
+  }
 }
 
 /*========================================================================
-                            If Statement
+                            Switch Case
 =========================================================================*/
 
-export type IfStatementProps = {
-  test?: GenericExpression
+export type SwitchCaseProps = {
+  test?: LiteralValue | GenericExpression
 };
 
 @JsNode.registerType()
-export class IfStatement extends Statement<ast.IfStatement, IfStatementProps> {
+@JsContainerNode({
+  getChildNodes: function() { return (this as SwitchCase).node.consequent; }
+})
+export class SwitchCase extends JsNode<ast.SwitchCase, SwitchCaseProps> {
   protected meta: JsNodeMeta = {
     test: {
       fromProp: p => p,
-      fromChild: [Expression]
+      fromChild: [Expression],
+      convert: b.literal,
+      default: null
     },
     consequent: {
+      fromChildren: [Statement]
+    }
+  };
+
+  protected builder = b.switchCase;
+
+  build(props: SwitchCaseProps, children: any[]): this {
+    if (props.test !== undefined && props.test !== null && !(props.test instanceof JsNode)) {
+      // Falsy props are ignored by default, which would turn "case 0:" into
+      // the default case
+      const test = b.literal(props.test as LiteralValue);
+      return super.build({}, children, Object.assign({}, this.meta, {
+        test: { default: () => test }
+      }));
+    }
+    return super.build(props, children);
+  }
+
+  append: (node: GenericStatement) => this;
+  insert: (index: number, node: GenericStatement) => this;
+  prepend: (node: GenericStatement) => this;
+
+  /**
+   * Returns the test, or undefined for the default case.
+   */
+  test(): GenericExpression {
+    return this.node.test ? this.getNodeForProp<GenericExpression>('test') : undefined;
+  }
+
+  consequent(): JsNodeList<GenericStatement> {
+    return this.getNodesForProp<GenericStatement>('consequent');
+  }
+
+  isDefault(): boolean {
+    return !this.node.test;
+  }
+}
+
+/*========================================================================
+                            Template Literals
+=========================================================================*/
+
+export type TemplateTextOptions = {
+  /**
+   * Returns the text that stands in for an embedded expression. Defaults to
+   * "${index}", e.g. "${0}" for the first expression.
+   */
+  placeholder?: (index: number) => string,
+  /**
+   * Uses the text as written in the source, i.e. with escape sequences like
+   * "\n" instead of the characters they represent. Defaults to false.
+   */
+  raw?: boolean
+};
+
+const defaultPlaceholder = (index: number) => '${' + index + '}';
+
+/**
+ * Escapes text so that it can be written in a template literal.
+ */
+function escapeTemplateText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
+
+function buildTemplateElement(text: string, tail: boolean): ast.TemplateElement {
+  return b.templateElement({ cooked: text, raw: escapeTemplateText(text) }, tail);
+}
+
+function buildTemplateLiteral(texts: string[], expressions: ast.Node[]): ast.TemplateLiteral {
+  return b.templateLiteral(
+    texts.map((text, i) => buildTemplateElement(text, i === texts.length - 1)), expressions);
+}
+
+/*========================================================================
+                            Template Literal
+=========================================================================*/
+
+export type TemplateLiteralProps = {};
+
+@JsNode.registerType()
+export class TemplateLiteral extends Expression<ast.TemplateLiteral, TemplateLiteralProps> {
+
+  /**
+   * Builds the literal from strings and expressions in the order in which they
+   * appear, e.g. "Hello ", <Identifier name='name' />, "!" for `Hello ${name}!`.
+   */
+  build(props: TemplateLiteralProps, children: any[]): this {
+    const texts = [''];
+    const expressions: ast.Node[] = [];
+    [].concat(...children).forEach(child => {
+      if (typeof child === 'string') {
+        texts[texts.length - 1] += child;
+      } else if (child instanceof Expression || child instanceof NewExpression) {
+        expressions.push(child.node);
+        texts.push('');
+      } else {
+        throw new Error(`TemplateLiteral: Invalid child: ${child}`);
+      }
+    });
+    this.node = buildTemplateLiteral(texts, expressions);
+    return this;
+  }
+
+  quasis(): JsNodeList<TemplateElement> {
+    return this.getNodesForProp<TemplateElement>('quasis');
+  }
+
+  expressions(): JsNodeList<GenericExpression> {
+    return this.getNodesForProp<GenericExpression>('expressions');
+  }
+
+  /**
+   * Returns the text of the literal with placeholders for the embedded
+   * expressions, e.g. to lint the CSS of a styled component.
+   */
+  text(options: TemplateTextOptions = {}): string {
+    const placeholder = options.placeholder || defaultPlaceholder;
+    return this.node.quasis
+      .map((quasi, i) => (options.raw ? quasi.value.raw : quasi.value.cooked) +
+        (quasi.tail ? '' : placeholder(i)))
+      .join('');
+  }
+
+  /**
+   * Replaces the text of the literal, e.g. after reformatting the text
+   * returned by text(). Placeholders are replaced with the expressions, which
+   * stay the same, so every placeholder must occur exactly once and in
+   * order.
+   */
+  setText(text: string, options: TemplateTextOptions = {}): this {
+    const placeholder = options.placeholder || defaultPlaceholder;
+    const texts: string[] = [];
+    let rest = text;
+    this.node.expressions.forEach((expression, i) => {
+      const parts = rest.split(placeholder(i));
+      if (parts.length !== 2) {
+        throw new Error(`Expected placeholder ${placeholder(i)} exactly once`);
+      }
+      texts.push(parts[0]);
+      rest = parts[1];
+    });
+    texts.push(rest);
+    const quasis = texts.map((t, i) => options.raw ?
+      b.templateElement({ cooked: t, raw: t }, i === texts.length - 1) :
+      buildTemplateElement(t, i === texts.length - 1));
+    this.repair();
+    this._path.get('quasis').replace(quasis);
+    return this;
+  }
+}
+
+/*========================================================================
+                            Template Element
+=========================================================================*/
+
+export type TemplateElementProps = {
+  value?: string,
+  tail?: boolean
+};
+
+@JsNode.registerType()
+export class TemplateElement extends JsNode<ast.TemplateElement, TemplateElementProps> {
+  protected meta: JsNodeMeta = {
+    value: {
       fromProp: p => p,
-      fromChild: [Statement],
-      default: () => b.blockStatement([])
+      fromChild: ['string'],
+      convert: s => ({ cooked: s, raw: escapeTemplateText(s) })
     },
-    alternate: {
+    tail: {
       fromProp: p => p,
-      fromChild: [Statement],
-      default: null
+      default: false
     }
   };
 
-  protected builder = b.ifStatement;
+  protected builder = b.templateElement;
 
-  consequent(): GenericStatement {
-    return this.getNodeForProp('consequent') as GenericStatement;
+  /**
+   * The text with escape sequences processed.
+   */
+  get cooked(): string {
+    return this.node.value.cooked;
+  }
+
+  /**
+   * The text as written in the source.
+   */
+  get raw(): string {
+    return this.node.value.raw;
+  }
+
+  /**
+   * Returns true for the last element of a template literal.
+   */
+  isTail(): boolean {
+    return this.node.tail;
+  }
+}
+
+/*========================================================================
+                        Tagged Template Expression
+=========================================================================*/
+
+export type TaggedTemplateExpressionProps = {
+  tag?: GenericExpression | string,
+  quasi?: TemplateLiteral | string
+};
+
+@JsNode.registerType()
+export class TaggedTemplateExpression
+  extends Expression<ast.TaggedTemplateExpression, TaggedTemplateExpressionProps> {
+
+  protected meta: JsNodeMeta = {
+    tag: {
+      fromProp: p => p,
+      fromChild: [Expression],
+      convert: b.identifier
+    },
+    quasi: {
+      fromProp: p => p,
+      fromChild: [TemplateLiteral],
+      convert: s => buildTemplateLiteral([s], [])
+    }
+  };
+
+  protected builder = b.taggedTemplateExpression;
+
+  tag(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('tag');
+  }
+
+  quasi(): TemplateLiteral {
+    return this.getNodeForProp<TemplateLiteral>('quasi');
+  }
+
+  quasis(): JsNodeList<TemplateElement> {
+    return this.quasi().quasis();
+  }
+
+  expressions(): JsNodeList<GenericExpression> {
+    return this.quasi().expressions();
+  }
+
+  /**
+   * Returns the text of the template with placeholders for the embedded
+   * expressions, e.g. the query of a gql`...` tag. See TemplateLiteral.text().
+   */
+  text(options?: TemplateTextOptions): string {
+    return this.quasi().text(options);
+  }
+
+  /**
+   * Replaces the text of the template. See TemplateLiteral.setText().
+   */
+  setText(text: string, options?: TemplateTextOptions): this {
+    this.repair().quasi().setText(text, options);
+    return this;
   }
 }
 
@@ -1120,6 +3196,34 @@ export class JSXAttribute
   }
 }
 
+/*========================================================================
+                            JSX Spread Attribute
+=========================================================================*/
+
+export type JSXSpreadAttributeProps = SpreadElementProps;
+
+/**
+ * A spread in the attributes of an element, e.g. "{...props}".
+ */
+@JsNode.registerType()
+export class JSXSpreadAttribute
+  extends JsNode<ast.JSXSpreadAttribute, JSXSpreadAttributeProps> {
+
+  protected meta: JsNodeMeta = {
+    argument: {
+      fromProp: p => p,
+      fromChild: [Expression, NewExpression, ArrayExpression, ObjectExpression],
+      convert: b.identifier
+    }
+  };
+
+  protected builder = b.jsxSpreadAttribute;
+
+  argument(): GenericExpression {
+    return this.getNodeForProp<GenericExpression>('argument');
+  }
+}
+
 /*========================================================================
                             JSX Opening Element
 =========================================================================*/
@@ -1140,7 +3244,7 @@ export class JSXOpeningElement
       convert: b.jsxIdentifier
     },
     attributes: {
-      fromChildren: [JSXAttribute]
+      fromChildren: [JSXAttribute, JSXSpreadAttribute]
     },
     selfClosing: {
       fromProp: p => p,
@@ -1194,7 +3298,7 @@ export class JSXElement
       convert: b.jsxIdentifier
     },
     attributes: {
-      fromChildren: [JSXAttribute]
+      fromChildren: [JSXAttribute, JSXSpreadAttribute]
     },
     selfClosing: {
       fromProp: p => p,
@@ -18,13 +18,11 @@ describe('JsNodeList', () => {
     const code = 'let foo, bar; let baz;';
     const identifiers = JsNode.fromModuleCode(code)
       .findChildrenOfType(js.Identifier);
-    // This feature will work as soon as we start targeting ES6.
-    // for (let id of identifiers) {
-    //   expect(id).toBeDefined();
-    // }
-    for (let id of identifiers.toList()) {
-      expect(id).toBeDefined();
+    const names = [];
+    for (let id of identifiers) {
+      names.push(id.name);
     }
+    expect(names).toEqual(['foo', 'bar', 'baz']);
   });
 
   it('map', () => {
@@ -74,6 +72,13 @@ describe('JsNodeList', () => {
     expect(list.at(1).format()).toBe('foo');
   });
 
+  it('clear', () => {
+    const node = JsNode.fromModuleCode('let foo, bar;');
+    const list = node.findChildrenOfType(js.Identifier);
+    expect(list.clear().size()).toBe(0);
+    expect(node.format()).toBe('let foo, bar;');
+  });
+
   it('remove all', () => {
     const code = 'let foo = 23, bar = 42;';
     let node = JsNode.fromModuleCode(code);
@@ -83,6 +88,97 @@ describe('JsNodeList', () => {
     expect(node.format()).toBe('let foo, bar;');
   });
 
+  it('remove all nested nodes', () => {
+    const node = JsNode.fromModuleCode('foo(bar(1));\nbaz();');
+    node.findChildrenOfType(js.ExpressionStatement).removeAll();
+    node.findChildrenOfType(js.CallExpression).removeAll();
+    expect(node.format()).toBe('');
+  });
+
+  it('replace all', () => {
+    const node = JsNode.fromModuleCode('foo(bar(1), 2);');
+    const calls = node.findChildrenOfType(js.CallExpression);
+    calls.replaceAll(call => b.callExpression(b.identifier('wrap'), [call.node]));
+    expect(node.format()).toBe('wrap(foo(wrap(bar(1)), 2));');
+    expect(calls.at(1).format()).toBe('wrap(bar(1))');
+    calls.replaceAll(call => call);
+    expect(node.format()).toBe('wrap(foo(wrap(bar(1)), 2));');
+  });
+
+  it('insert before/after each', () => {
+    const code = 'let foo;\nlet bar;\nlet baz;';
+    const call = (name: string) => b.expressionStatement(b.callExpression(b.identifier(name), []));
+    let node = JsNode.fromModuleCode(code);
+    node
+      .findChildrenOfType(js.VariableDeclaration)
+      .insertBeforeEach((decl, i) => call(`before${i}`))
+      .insertAfterEach((decl, i) => call(`after${i}`));
+    expect(node.format().split('\n')).toEqual([
+      'before0();', 'let foo;', 'after0();',
+      'before1();', 'let bar;', 'after1();',
+      'before2();', 'let baz;', 'after2();'
+    ]);
+    // Paths from separate traversals are not updated by ast-types
+    node = JsNode.fromModuleCode(code);
+    const first = node.findChildrenOfType(js.VariableDeclaration);
+    const second = node.findChildrenOfType(js.VariableDeclaration);
+    JsNodeList
+      .fromPaths([first.at(0).path, second.at(1).path, second.at(2).path])
+      .insertAfterEach((decl, i) => call(`after${i}`));
+    expect(node.format().split('\n')).toEqual([
+      'let foo;', 'after0();', 'let bar;', 'after1();', 'let baz;', 'after2();'
+    ]);
+  });
+
+  it('closest', () => {
+    const node = JsNode.fromModuleCode('function foo() { return bar(baz); }');
+    const identifiers = node.findChildrenOfType(js.Identifier);
+    const closest = identifiers.closest(js.FunctionDeclaration);
+    expect(closest.size()).toBe(1);
+    expect(closest.first().node.id.name).toBe('foo');
+    expect(identifiers.closest(js.Identifier).size()).toBe(3);
+    expect(identifiers.closest(js.ClassDeclaration).size()).toBe(0);
+  });
+
+  it('unique', () => {
+    const node = JsNode.fromModuleCode('let foo, bar;');
+    const identifiers = node.findChildrenOfType(js.Identifier);
+    const list = JsNodeList
+      .fromPaths(identifiers.map(id => id.path).concat(identifiers.map(id => id.path)), js.Identifier)
+      .concat(node.findChildrenOfType(js.Identifier))
+      .unique();
+    expect(list.map(id => id.name)).toEqual(['foo', 'bar']);
+  });
+
+  it('sort by source position', () => {
+    const node = JsNode.fromModuleCode('foo(bar(1), `${baz} ${qux}`);');
+    const identifiers = node.findChildrenOfType(js.Identifier);
+    identifiers.at(3).insertBefore(b.identifier('added'));
+    const sorted = JsNodeList
+      .fromPaths(identifiers.map(id => id.path).reverse(), js.Identifier)
+      .concat(node.findChildrenOfType(js.Identifier, id => id.name === 'added'))
+      .sortBySourcePosition();
+    expect(sorted.map(id => id.name)).toEqual(['foo', 'bar', 'baz', 'added', 'qux']);
+  });
+
+  it('group by', () => {
+    const node = JsNode.fromModuleCode('let foo = 1, bar = "a", baz = 2;');
+    const groups = node
+      .findChildrenOfType(js.Literal)
+      .groupBy(literal => typeof literal.value);
+    expect(Array.from(groups.keys())).toEqual(['number', 'string']);
+    expect(groups.get('number').map(literal => literal.value)).toEqual([1, 2]);
+    expect(groups.get('string').at(0)).toBeInstanceOf(js.Literal);
+  });
+
+  it('unique by structure', () => {
+    const node = JsNode.fromModuleCode('foo(this.props); bar(this.props, this .props, this.state);');
+    const list = node
+      .findChildrenOfType(js.MemberExpression)
+      .uniqueByStructure();
+    expect(list.map(n => n.format())).toEqual(['this.props', 'this.state']);
+  });
+
   it('concat', () => {
     const list1 = JsNode
       .fromModuleCode('let foo;')
@@ -106,6 +202,16 @@ describe('JsNodeList', () => {
     expect(nodes[1].name).toBe('bar');
     expect(nodes[2].name).toBe('baz');
   });
+
+  it('clone', () => {
+    const node = JsNode.fromModuleCode('let foo, bar;');
+    const copies = node.findChildrenOfType(js.Identifier).clone();
+    expect(copies.size()).toBe(2);
+    expect(copies.at(0) instanceof js.Identifier).toBe(true);
+    copies.at(0).node.name = 'baz';
+    expect(node.format()).toBe('let foo, bar;');
+    expect(copies.map(n => n.format())).toEqual(['baz', 'bar']);
+  });
 });
 
 describe('JsNode', () => {
@@ -254,6 +360,175 @@ describe('JsNode', () => {
     expect(literal.getRoot().format()).toBe(code);
   });
 
+  it('descendants', () => {
+    const code = 'let foo, bar; function baz(qux) { return foo; }';
+    const root = JsNode.fromModuleCode(code);
+    expect(root.descendants().map(n => n.type()).toArray())
+      .toEqual(root.findChildren(n => true).map(n => n.type()));
+    expect(root.descendants(true).first()).toBeInstanceOf(js.File);
+    const ids = root.descendants().ofType(js.Identifier);
+    expect(ids.map(id => id.name).toArray()).toEqual(['foo', 'bar', 'baz', 'qux', 'foo']);
+    expect(ids.filter(id => id.name === 'baz').first().getRoot().node).toBe(root.node);
+    expect(root.descendants().matching('ReturnStatement > Identifier').size()).toBe(1);
+    expect(ids.take(2).toJsNodeList().nodes().map(n => n.name)).toEqual(['foo', 'bar']);
+  });
+
+  it('descendants are evaluated lazily', () => {
+    const root = JsNode.fromModuleCode('let foo = 1; let bar = 2; let baz = 3;');
+    let visited = 0;
+    const literal = root.descendants()
+      .filter(n => {
+        visited++;
+        return true;
+      })
+      .ofType(js.Literal)
+      .first();
+    expect(literal.value).toBe(1);
+    expect(visited).toBe(5);
+    visited = 0;
+    root.descendants().map(n => visited++).take(3).toArray();
+    expect(visited).toBe(3);
+  });
+
+  it('equals', () => {
+    const node = JsNode.fromModuleCode('foo(1);\nfoo( 1 );\nfoo(2);');
+    const calls = node.findChildrenOfType(js.CallExpression);
+    expect(calls.at(0).equals(calls.at(1))).toBe(true);
+    expect(calls.at(0).equals(calls.at(1).node)).toBe(true);
+    expect(calls.at(0).equals(calls.at(2))).toBe(false);
+    expect(calls.at(0).equals(calls.at(1), { ignoreLocations: false })).toBe(false);
+    expect(calls.at(0).equals(undefined)).toBe(false);
+  });
+
+  it('structural hash', () => {
+    const node = JsNode.fromModuleCode('foo(1);');
+    const hash = node.structuralHash();
+    expect(JsNode.fromModuleCode('foo( 1 );').structuralHash()).toBe(hash);
+    node.findFirstChildOfType(js.Literal).replace(b.literal(2));
+    expect(node.structuralHash()).not.toBe(hash);
+  });
+
+  it('find equal', () => {
+    const node = JsNode.fromModuleCode('class Foo { bar() { return this.props.baz; } }');
+    const code = b.memberExpression(b.thisExpression(), b.identifier('props'), false);
+    expect(node.findEqual(code).format()).toBe('this.props');
+    expect(node.findEqual(JsNode.fromExpressionStatement('this.state'))).toBeUndefined();
+  });
+
+  it('clone', () => {
+    const node = JsNode.fromModuleCode('class Foo { bar() { return 1; } }');
+    const method = node.findFirstChildOfType(js.MethodDefinition);
+    const copy = method.clone();
+    expect(copy instanceof js.MethodDefinition).toBe(true);
+    expect(copy.hasParent()).toBe(false);
+    copy.findFirstChildOfType(js.Literal).replace(b.literal(2));
+    expect(node.format()).toBe('class Foo { bar() { return 1; } }');
+    expect(copy.format()).toBe('bar() {\n    return 2;\n}');
+  });
+
+  it('comments', () => {
+    const node = JsNode.fromModuleCode('// foo\nfoo(); // bar\nbaz();');
+    const statements = node.findChildrenOfType(js.ExpressionStatement);
+    expect(statements.at(0).leadingComments().map(c => c.value)).toEqual([' foo']);
+    expect(statements.at(0).trailingComments().map(c => c.value)).toEqual([' bar']);
+    expect(statements.at(1).leadingComments()).toEqual([]);
+    statements.at(0).removeComments();
+    statements.at(1).addComment('TODO').addComment('bar', { block: true });
+    expect(node.format()).toBe('foo();\n// TODO\n/* bar */\nbaz();');
+    statements.at(1).addComment('trail', { leading: false });
+    statements.at(0).addComment('block', { leading: false, block: true });
+    expect(node.format()).toBe('foo(); /* block */\n// TODO\n/* bar */\nbaz(); // trail');
+  });
+
+  it('JSDoc', () => {
+    const node = JsNode.fromModuleCode([
+      '/** Not this one. */',
+      '/**',
+      ' * Foo.',
+      ' * @param {string} a',
+      ' */',
+      'export function foo(a) {}',
+      '// bar',
+      'function bar() {}'
+    ].join('\n'));
+    const functions = node.findChildrenOfType(js.FunctionDeclaration);
+    const doc = functions.at(0).jsDoc();
+    expect(doc.description).toBe('Foo.');
+    expect(doc.tags).toEqual([{ tag: 'param', type: 'string', name: 'a', description: '' }]);
+    expect(functions.at(1).jsDoc()).toBeUndefined();
+  });
+
+  it('replace keeping comments', () => {
+    const node = JsNode.fromModuleCode('// foo\nfoo();\nbar();');
+    const statements = node.findChildrenOfType(js.ExpressionStatement);
+    statements.at(0).replace(b.expressionStatement(b.identifier('baz')), { keepComments: true });
+    statements.at(1).replace(b.expressionStatement(b.identifier('qux')));
+    expect(node.format()).toBe('// foo\nbaz;\nqux;');
+  });
+
+  it('node at position', () => {
+    const node = JsNode.fromModuleCode('let a = 1;\nclass Foo {\n  bar() { return this.baz; }\n}');
+    expect(node.nodeAt(1, 4).format()).toBe('a');
+    expect(node.nodeAt(3, 24).format()).toBe('baz');
+    expect(node.nodeAt(3, 21).format()).toBe('this.baz');
+    expect(node.nodeAt(3, 24, js.ClassDeclaration).id().name).toBe('Foo');
+    expect(node.nodeAt(3, 24, js.MethodDefinition).methodName()).toBe('bar');
+    expect(node.nodeAt(1, 0, js.ClassDeclaration)).toBeUndefined();
+    expect(node.nodeAt(10, 0)).toBeUndefined();
+  });
+
+  it('node at position ignores inserted nodes', () => {
+    const node = JsNode.fromModuleCode('foo(1);');
+    node.findFirstChildOfType(js.Literal).replace(b.literal(2));
+    expect(node.nodeAt(1, 4).type()).toBe('CallExpression');
+  });
+
+  it('nodes in range', () => {
+    const node = JsNode.fromModuleCode('let a = 1;\nlet b = 2;\nlet c = 3;');
+    const start = { line: 1, column: 4 };
+    const end = { line: 2, column: 10 };
+    expect(node.nodesInRange(start, end).map(n => n.format())).toEqual([
+      'a = 1', 'a', '1', 'let b = 2;', 'b = 2', 'b', '2'
+    ]);
+    expect(node.nodesInRange(start, end, js.Identifier).map(n => n.name)).toEqual(['a', 'b']);
+    expect(node.nodesInRange(end, { line: 3, column: 0 }).size()).toBe(0);
+  });
+
+  it('clone keeping locations', () => {
+    const statement = JsNode.fromModuleCode('foo( 1 );')
+      .findFirstChildOfType(js.ExpressionStatement);
+    expect(statement.clone({ keepLocations: true }).format()).toBe('foo( 1 );');
+    expect(statement.clone().format()).toBe('foo(1);');
+  });
+
+  it('format with source map', () => {
+    const code = 'let foo = 42;\nlet bar = foo;';
+    const node = JsNode.fromModuleCode(code);
+    node.findFirstChildOfType(js.Literal).replace(b.literal(23));
+    const result = node.formatWithSourceMap({ sourceFileName: 'foo.js', sourceMapName: 'foo.out.js' });
+    expect(result.code).toBe(node.format());
+    expect(result.map.version).toBe(3);
+    expect(result.map.file).toBe('foo.out.js');
+    expect(result.map.sources).toEqual(['foo.js']);
+    expect(result.map.sourcesContent).toEqual([code]);
+    expect(result.map.mappings).toContain(';');
+  });
+
+  it('format with input source map', () => {
+    const inputMap = JsNode
+      .parse('let foo = 42;', { sourceFileName: 'foo.ts' })
+      .formatWithSourceMap({ sourceMapName: 'foo.js' })
+      .map;
+    const node = JsNode.fromModuleCode('let foo = 42;');
+    node.findFirstChildOfType(js.Identifier).replace(b.identifier('bar'));
+    const result = node.formatWithSourceMap({
+      sourceFileName: 'foo.js',
+      inputSourceMap: JSON.stringify(inputMap)
+    });
+    expect(result.code).toBe('let bar = 42;');
+    expect(result.map.sources).toEqual(['foo.ts']);
+  });
+
   it('replace', () => {
     const code = 'const foo = 42;';
     const node = JsNode.fromModuleCode(code);
@@ -370,8 +645,34 @@ describe('JsNode', () => {
     // so we won't be able to traverse all the way to the root since the
     // constructed tree doesn't magically link to the original AST.
     // We should silently fix that behind the scenes.
-    // TODO
-    // expect(foo.getRoot().type()).toBe('File');
+    expect(foo.getRoot().type()).toBe('File');
+  });
+
+  it('repairs paths after direct AST edits', () => {
+    const root = JsNode.fromModuleCode('foo();\nbar();');
+    const program = root.findFirstChildOfType(js.Program);
+    const bar = root.findFirstChildOfType(js.ExpressionStatement, s => s.format() === 'bar();');
+    program.node.body.unshift(b.expressionStatement(b.identifier('baz')));
+    expect(bar.path.name).toBe(1);
+    expect(bar.repair().path.name).toBe(2);
+    bar.remove();
+    expect(root.format()).toBe('baz;\nfoo();');
+  });
+
+  it('repairs inserted nodes', () => {
+    const root = JsNode.fromModuleCode('function foo() { baz(); }');
+    const body = root.findFirstChildOfType(js.BlockStatement);
+    const statement = JsNode.fromCode<js.GenericStatement>('var baz = 1;').first();
+    const reference = root.findFirstChildOfType(js.Identifier, id => id.name === 'baz');
+    expect(reference.isFree()).toBe(true);
+    body.append(statement);
+    expect(statement.getRoot().node).toBe(root.node);
+    expect(statement.findClosestScope().type()).toBe('FunctionDeclaration');
+    expect(reference.isFree()).toBe(false);
+    const replacement = JsNode.fromCode<js.GenericStatement>('qux();').first();
+    statement.replace(replacement);
+    expect(replacement.getRoot().node).toBe(root.node);
+    expect(reference.isFree()).toBe(true);
   });
 });
 
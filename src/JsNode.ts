@@ -3,11 +3,22 @@
  */
 
 import { ast, recast } from '../deps/bundle';
+import { parseSelector, matchesAnySelector } from './Query';
+import { Template, TemplateMatch, RewriteRule } from './Template';
+import { Transaction, TransactionCallback } from './Transaction';
+import { LazySequence } from './Lazy';
+import { EqualityOptions, nodesEqual, structuralHash } from './Equality';
+import { CloneOptions, cloneNode } from './Clone';
+import {
+  CommentOptions, JsDoc, getLeadingComments, getTrailingComments, createComments, addComments,
+  removeComments, copyComments, isJsDocComment, parseJsDoc
+} from './Comments';
 
 // Important! Even though recast just re-exports types from ast-types, JS will
 // consider them to be different objects. When jscodeshift gets a ast.NodePath that
 // was created in ast-types instead of recast, it won't recognise it and fail.
 const visit = recast.visit;
+const b = ast.builders;
 
 export type TypeIdentifier = (ast.Node | ast.Type | string);
 export type GenericJsNode = JsNode<ast.Node, any>;
@@ -40,6 +51,72 @@ export type JsNodeMetaProp = {
 
 export type JsNodeBuilder = (...args: any[]) => ast.Node;
 
+/**
+ * A source map in the revision 3 format.
+ */
+export type SourceMap = {
+  version: number,
+  file?: string,
+  sourceRoot?: string,
+  sources: string[],
+  sourcesContent?: string[],
+  names: string[],
+  mappings: string
+};
+
+export type SourceMapOptions = {
+  /**
+   * Name of the original file, as it should appear in the source map. Ignored
+   * if an inputSourceMap is given, since its sources are used instead.
+   */
+  sourceFileName?: string,
+  /**
+   * Name of the generated file. Defaults to the name of the original file.
+   */
+  sourceMapName?: string,
+  sourceRoot?: string,
+  /**
+   * A source map for the original file (e.g. created by a compiler) that
+   * should be combined with the source map of the transformation.
+   */
+  inputSourceMap?: (SourceMap | string)
+};
+
+export type FormattedCode = {
+  code: string,
+  map: SourceMap
+};
+
+export type ReplaceOptions = {
+  /**
+   * Moves the leading and trailing comments of the replaced node to the new
+   * node. Defaults to false.
+   */
+  keepComments?: boolean
+};
+
+export type WrapInTryOptions = {
+  /**
+   * Name of the caught exception. Defaults to "error".
+   */
+  param?: string,
+  /**
+   * Statements of the catch block, which is empty by default. If null, there
+   * is no catch block, so a finalizer is required.
+   */
+  handler?: (GenericJsNode | ast.Node)[],
+  /**
+   * Statements of the finally block. By default, there is no finally block.
+   */
+  finalizer?: (GenericJsNode | ast.Node)[]
+};
+
+/**
+ * Recast can only create source maps for code that was given a file name when
+ * it was parsed. The name is replaced in formatWithSourceMap().
+ */
+const defaultSourceFileName = 'source.js';
+
 export class InvalidTypeError extends Error {
   constructor(public typeId: string) {
     super(`Invalid type "${typeId}"; only annotated types are allowed`);
@@ -114,30 +191,14 @@ export class JsNodeList<T extends GenericJsNode> {
     return this.getTypedNode(index);
   }
 
-  /**
-   * Implements Iterator.
-   */
-  // private _pointer = 0;
-  // next(): IteratorResult<T> {
-  //   if (this._pointer < this._paths.length) {
-  //     return {
-  //       done: false,
-  //       value: this.at(this._pointer++)
-  //     }
-  //   } else {
-  //     return {
-  //       done: true,
-  //       value: undefined
-  //     };
-  //   }
-  // }
-
   /**
    * Implements Iterable.
    */
-  // [Symbol.iterator]() {
-  //   return this;
-  // }
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this._paths.length; i++) {
+      yield this.getTypedNode(i);
+    }
+  }
 
   toList(): T[] {
     return this.map(node => node);
@@ -182,10 +243,189 @@ export class JsNodeList<T extends GenericJsNode> {
   }
 
   removeAll(): this {
-    this._paths.forEach(path => path.prune());
+    this.mutateEach((path, index) => this.getTypedNode(index).remove());
+    return this;
+  }
+
+  /**
+   * Empties the collection. Unlike removeAll(), the nodes stay in the AST.
+   */
+  clear(): this {
+    this._paths = [];
     return this;
   }
 
+  /**
+   * Replaces every node with the node returned by the callback. Nested nodes
+   * are replaced first, so the callback for an outer node receives the
+   * already modified sub-tree.
+   */
+  replaceAll(func: (node: T, index?: number) => (GenericJsNode | ast.Node),
+    options?: ReplaceOptions): this {
+
+    this.mutateEach((path, index) => {
+      const node = this.getTypedNode(index);
+      const replacement = func(node, index);
+      if (replacement !== node && replacement !== node.node) {
+        this._paths[index] = node.replace(replacement, options).path;
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Replaces the statements with a try statement that contains them, e.g. to
+   * catch errors thrown by JSON.parse(). The statements must be consecutive
+   * statements of the same block, but can be in any order. Afterwards, the
+   * collection contains the statements inside the try block.
+   */
+  wrapInTry<U extends GenericJsNode>(options: WrapInTryOptions = {}): U {
+    const paths = this.map(node => node.repair().path);
+    const parent = paths.length > 0 && paths[0].parentPath;
+    if (!parent || !Array.isArray(parent.value) ||
+      paths.some(path => path.parentPath !== parent || parent.value[path.name] !== path.value)) {
+      throw new Error('Can only wrap statements of the same block in a try statement');
+    }
+    const indexes = paths.map(path => Number(path.name)).sort((x, y) => x - y);
+    if (indexes.some((index, i) => index !== indexes[0] + i)) {
+      throw new Error('Can only wrap consecutive statements in a try statement');
+    }
+    const toAstNodes = (nodes: (GenericJsNode | ast.Node)[]) =>
+      nodes.map(node => node instanceof JsNode ? node.node : node);
+    const handler = options.handler === null ? null : b.catchClause(
+      b.identifier(options.param || 'error'), null,
+      b.blockStatement(toAstNodes(options.handler || [])));
+    const finalizer = options.finalizer ?
+      b.blockStatement(toAstNodes(options.finalizer)) : null;
+    if (!handler && !finalizer) {
+      throw new Error('A try statement requires a catch or finally block');
+    }
+    // Paths change when they are replaced, so keep the original nodes
+    const values = paths.map(path => path.value);
+    const block = b.blockStatement(indexes.map(index => parent.value[index]));
+    indexes.slice(1).reverse().forEach(index => parent.get(index).prune());
+    parent.get(indexes[0]).replace(b.tryStatement(block, handler, finalizer));
+    const tryPath = parent.get(indexes[0]);
+    this.clear();
+    values.forEach(value => this.pushPath(tryPath.get('block', 'body', block.body.indexOf(value))));
+    return JsNode.fromPath<U>(tryPath).repair();
+  }
+
+  /**
+   * Inserts the node returned by the callback before every node.
+   */
+  insertBeforeEach(func: (node: T, index?: number) => (GenericJsNode | ast.Node)): this {
+    this.mutateEach((path, index) => {
+      const node = this.getTypedNode(index);
+      node.insertBefore(func(node, index));
+    });
+    return this;
+  }
+
+  /**
+   * Inserts the node returned by the callback after every node.
+   */
+  insertAfterEach(func: (node: T, index?: number) => (GenericJsNode | ast.Node)): this {
+    this.mutateEach((path, index) => {
+      const node = this.getTypedNode(index);
+      node.insertAfter(func(node, index));
+    });
+    return this;
+  }
+
+  /**
+   * Returns, for every node, the node itself or its closest ancestor of the
+   * given type. Each matching node is only returned once.
+   */
+  closest<U extends GenericJsNode>(type: JsNodeType<U>): JsNodeList<U> {
+    const paths: ast.NodePath[] = [];
+    this._paths.forEach(path => {
+      for (let p = path; p; p = p.parent) {
+        const node = JsNode.fromPath(p);
+        if (type.check ? type.check(node) : node instanceof type) {
+          paths.push(p);
+          break;
+        }
+      }
+    });
+    return JsNodeList.fromPaths(paths, type).unique();
+  }
+
+  /**
+   * Removes duplicates, i.e. paths that refer to the same node. The first
+   * occurrence is kept.
+   */
+  unique(): this {
+    const nodes: ast.Node[] = [];
+    this._paths = this._paths.filter(path => {
+      if (nodes.indexOf(path.value) >= 0) {
+        return false;
+      }
+      nodes.push(path.value);
+      return true;
+    });
+    return this;
+  }
+
+  /**
+   * Removes nodes that are structurally equal to an earlier node, e.g. two
+   * occurrences of "this.props". See JsNode.equals().
+   */
+  uniqueByStructure(options?: EqualityOptions): this {
+    const buckets = new Map<string, ast.Node[]>();
+    this._paths = this._paths.filter(path => {
+      const hash = structuralHash(path.value, options);
+      const bucket = buckets.get(hash) || [];
+      if (bucket.some(node => nodesEqual(node, path.value, options))) {
+        return false;
+      }
+      buckets.set(hash, bucket.concat([path.value]));
+      return true;
+    });
+    return this;
+  }
+
+  /**
+   * Returns a list of deep copies of the nodes. See JsNode.clone().
+   */
+  clone(options?: CloneOptions): JsNodeList<T> {
+    return JsNodeList.fromPaths(
+      this._paths.map(path => new ast.NodePath(cloneNode(path.value, options))), this._type);
+  }
+
+  /**
+   * Sorts the nodes in the order they appear in the source code. Nodes that
+   * were added after parsing are sorted by their position in the AST, so
+   * parents come before their children.
+   */
+  sortBySourcePosition(): this {
+    const positions = new Map<ast.NodePath, number[]>();
+    this._paths.forEach(path => positions.set(path, getTreePosition(path)));
+    this._paths = this._paths
+      .map((path, index) => ({ path, index }))
+      .sort((a, b) => compareSourceLocations(a.path.value, b.path.value) ||
+        comparePositions(positions.get(a.path), positions.get(b.path)) ||
+        a.index - b.index)
+      .map(entry => entry.path);
+    return this;
+  }
+
+  /**
+   * Groups the nodes by the key returned by the callback. Groups are in the
+   * order in which their keys first occur.
+   */
+  groupBy<K>(func: (node: T, index?: number) => K): Map<K, JsNodeList<T>> {
+    const groups = new Map<K, JsNodeList<T>>();
+    this.forEach((node, index) => {
+      const key = func(node, index);
+      if (!groups.has(key)) {
+        groups.set(key, new JsNodeList<T>(this._type));
+      }
+      groups.get(key).pushPath(node.path);
+    });
+    return groups;
+  }
+
   copy(): JsNodeList<T> {
     return JsNodeList.fromPaths(this._paths.slice(0), this._type);
   }
@@ -203,6 +443,52 @@ export class JsNodeList<T extends GenericJsNode> {
     return this._paths.map(p => <T>p.value);
   }
 
+  /**
+   * Returns the first node matching a selector in any of the sub-trees of this
+   * collection. See JsNode.queryAll() for details.
+   */
+  query<T extends GenericJsNode>(selector: string): T {
+    return this.queryAll<T>(selector).first();
+  }
+
+  /**
+   * Returns all nodes matching a selector in any of the sub-trees of this
+   * collection. Nodes contained in more than one sub-tree are only returned
+   * once.
+   */
+  queryAll<T extends GenericJsNode>(selector: string): JsNodeList<T> {
+    const paths: ast.NodePath[] = [];
+    const nodes: ast.Node[] = [];
+    this.forEach(node => {
+      node.queryAll(selector).forEach(match => {
+        if (nodes.indexOf(match.node) < 0) {
+          nodes.push(match.node);
+          paths.push(match.path);
+        }
+      });
+    });
+    return JsNodeList.fromPaths(paths);
+  }
+
+  /**
+   * Calls the mutation for every node, deepest nodes first. Before each call,
+   * the path is brought up to date with the AST, since earlier mutations may
+   * have moved it. Nodes that are no longer part of the AST are skipped.
+   */
+  protected mutateEach(mutation: (path: ast.NodePath, index: number) => any) {
+    const depths = this._paths.map(getDepth);
+    this._paths
+      .map((path, index) => index)
+      .sort((a, b) => depths[b] - depths[a] || b - a)
+      .forEach(index => {
+        const path = resolvePath(this._paths[index]);
+        if (path) {
+          this._paths[index] = path;
+          mutation(path, index);
+        }
+      });
+  }
+
   protected getTypedNode(index: number): T {
     if (index >= this._paths.length) {
       throw new Error('Index out of bounds');
@@ -216,6 +502,222 @@ export class JsNodeList<T extends GenericJsNode> {
   }
 }
 
+/**
+ * A collection of nodes that is evaluated lazily, so that traversing the AST
+ * stops as soon as enough nodes were found:
+ *
+ *   root.descendants().ofType(Identifier).filter(id => id.name === 'foo').first()
+ *
+ * See JsNode.descendants().
+ */
+export class LazyJsNodeList<T extends GenericJsNode> extends LazySequence<T> {
+  static fromPaths<T extends GenericJsNode>(
+    paths: () => Iterator<ast.NodePath>): LazyJsNodeList<T> {
+
+    return new LazyJsNodeList<T>(function* () {
+      const iterator = paths();
+      for (let result = iterator.next(); !result.done; result = iterator.next()) {
+        yield JsNode.fromPath<T>(result.value);
+      }
+    });
+  }
+
+  /**
+   * Filters and casts nodes by type, like JsNode.findChildrenOfType().
+   */
+  ofType<U extends GenericJsNode>(type: JsNodeType<U>): LazyJsNodeList<U> {
+    const self = this;
+    return new LazyJsNodeList<U>(function* () {
+      for (const node of self) {
+        if (type.check ? type.check(node) : node instanceof type) {
+          yield node.castTo(type);
+        }
+      }
+    });
+  }
+
+  /**
+   * Filters nodes by a CSS-like selector. See JsNode.queryAll().
+   */
+  matching(selector: string): this {
+    const selectors = parseSelector(selector);
+    return this.filter(node => matchesAnySelector(node.path, selectors));
+  }
+
+  /**
+   * Evaluates the entire sequence.
+   */
+  toJsNodeList(): JsNodeList<T> {
+    return JsNodeList.fromPaths(this.map(node => node.path).toArray());
+  }
+}
+
+function getDepth(path: ast.NodePath): number {
+  let depth = 0;
+  for (let p = path.parentPath; p; p = p.parentPath) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Returns the path that currently holds the node, starting from the root of
+ * the path. Paths get out of date when nodes are inserted or removed through
+ * other paths. Returns undefined if the node was removed from the AST.
+ */
+function resolvePath(path: ast.NodePath): ast.NodePath {
+  if (!path.parentPath) {
+    return path;
+  }
+  const parent = resolvePath(path.parentPath);
+  if (!parent) {
+    return;
+  }
+  const siblings = parent.value;
+  let name = path.name;
+  if (Array.isArray(siblings) && siblings[name] !== path.value) {
+    name = siblings.indexOf(path.value);
+  }
+  if (siblings && siblings[name] === path.value) {
+    return parent.get(name);
+  }
+}
+
+/**
+ * Esprima includes the semicolon in the location of let and const
+ * declarations in the initialization of for loops, so recast prints it twice
+ * when it reprints the loop, e.g. "for (let i = 0;; i < n; i++)". Since this
+ * runs on every parse, it walks the plain objects instead of creating paths.
+ */
+function fixLoopLocations(file: ast.File) {
+  const stack: any[] = [file];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    const init = node.type === 'ForStatement' && node.init;
+    if (init && init.type === 'VariableDeclaration' && init.loc) {
+      const last = init.declarations[init.declarations.length - 1];
+      if (last && last.loc) {
+        init.loc.end = last.loc.end;
+      }
+    }
+    Object.keys(node).forEach(key => {
+      if (key !== 'loc' && node[key] !== null && typeof node[key] === 'object') {
+        stack.push(node[key]);
+      }
+    });
+  }
+}
+
+function getRootPath(path: ast.NodePath): ast.NodePath {
+  while (path.parentPath) {
+    path = path.parentPath;
+  }
+  return path;
+}
+
+/**
+ * Searches the sub-tree breadth-first for the path of a node, so that nodes
+ * close to the start are found quickly.
+ */
+function findPath(start: ast.NodePath, node: ast.Node): ast.NodePath {
+  const queue = [start];
+  while (queue.length > 0) {
+    const path = queue.shift();
+    const value = path.value;
+    if (value === node) {
+      return path;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((child, i) => queue.push(path.get(<any>i)));
+    } else if (value && typeof value.type === 'string') {
+      ast.getFieldNames(value).forEach(name => {
+        const child = value[name];
+        if (child && typeof child === 'object') {
+          queue.push(path.get(name));
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Makes the scopes enclosing the path scan their declarations again the next
+ * time they are used.
+ */
+function invalidateScopes(path: ast.NodePath) {
+  for (let scope = path.scope; scope; scope = scope.parent) {
+    scope.didScan = false;
+  }
+}
+
+/**
+ * Returns the position of a path as a list of child indexes, starting at the
+ * root.
+ */
+function getTreePosition(path: ast.NodePath): number[] {
+  const position: number[] = [];
+  for (let p = path; p.parentPath; p = p.parentPath) {
+    const parentValue = p.parentPath.value;
+    position.unshift(Array.isArray(parentValue) ?
+      p.name : ast.getFieldNames(parentValue).indexOf(p.name));
+  }
+  return position;
+}
+
+/**
+ * Compares the start of two nodes, if both were parsed from the same source.
+ */
+function compareSourceLocations(a: ast.Node, b: ast.Node): number {
+  if (!a.loc || !b.loc || a.loc['lines'] !== b.loc['lines']) {
+    return 0;
+  }
+  return a.loc.start.line - b.loc.start.line || a.loc.start.column - b.loc.start.column;
+}
+
+function compareSourcePositions(a: ast.Position, b: ast.Position): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Returns true if the position is within the location. The end of a location
+ * is exclusive, so a position between two adjacent nodes belongs to the
+ * second one.
+ */
+function containsPosition(loc: ast.SourceLocation, position: ast.Position): boolean {
+  return compareSourcePositions(loc.start, position) <= 0 &&
+    compareSourcePositions(position, loc.end) < 0;
+}
+
+function comparePositions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Yields the paths of all nodes in the sub-tree in document order, i.e. in
+ * the same order recast.visit() visits them.
+ */
+function* walkPaths(path: ast.NodePath): IterableIterator<ast.NodePath> {
+  const value = path.value;
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      yield* walkPaths(path.get(<any>i));
+    }
+  } else if (value && typeof value.type === 'string') {
+    yield path;
+    for (const name of ast.getFieldNames(value)) {
+      const child = value[name];
+      if (child && typeof child === 'object') {
+        yield* walkPaths(path.get(name));
+      }
+    }
+  }
+}
+
 function flatten(arr) {
   let ret = [];
   for (let i = 0; i < arr.length; i++) {
@@ -276,7 +778,7 @@ export class JsNode<T extends ast.Node, P> {
 
   static fromCode<T extends GenericJsNode>(code: string, args?: Object): JsNodeList<T> {
     return JsNode
-      .parse(code, args)
+      .parseFragment(code, args)
       .descend(n => n.node.type === 'Program')
       .children<T>();
   }
@@ -288,20 +790,32 @@ export class JsNode<T extends ast.Node, P> {
 
   static fromExpressionStatement(code: string, args?: Object): GenericJsNode {
     return JsNode
-      .parse(`() => ${code}`, args)
+      .parseFragment(`() => ${code}`, args)
       .descend(n => n.node.type === 'ArrowFunctionExpression')
       .descend();
   }
 
   static fromFunctionBody<T extends GenericJsNode>(code: string, args?: Object): JsNodeList<T> {
     return JsNode
-      .parse(`() => {${code}}`, args)
+      .parseFragment(`() => {${code}}`, args)
       .descend(n => n.node.type === 'BlockStatement')
       .children<T>();
   }
 
   static parse(code: string, args?: Object) {
-    return JsNode.fromPath(new ast.NodePath(recast.parse(code, args)));
+    return JsNode.parseFragment(code, Object.assign({
+      sourceFileName: defaultSourceFileName
+    }, args));
+  }
+
+  /**
+   * Parses code that is not part of a source file, so generated code does not
+   * get mapped to any original file.
+   */
+  protected static parseFragment(code: string, args?: Object) {
+    const file = recast.parse(code, args);
+    fixLoopLocations(file);
+    return JsNode.fromPath(new ast.NodePath(file));
   }
 
   protected _path: ast.NodePath;
@@ -348,6 +862,33 @@ export class JsNode<T extends ast.Node, P> {
     return recast.print(this._path.value).code.replace(/\r/g, '');
   }
 
+  /**
+   * Like format(), but also returns a source map that maps the code back to
+   * the parsed source. Only nodes that are part of a tree created by
+   * JsNode.parse() or JsNode.fromModuleCode() are mapped.
+   */
+  formatWithSourceMap(options: SourceMapOptions = {}): FormattedCode {
+    const sourceFileName = options.sourceFileName || defaultSourceFileName;
+    let inputSourceMap = options.inputSourceMap;
+    if (typeof inputSourceMap === 'string') {
+      inputSourceMap = JSON.parse(inputSourceMap);
+    }
+    const result = recast.print(this._path.value, {
+      sourceMapName: options.sourceMapName || sourceFileName,
+      sourceRoot: options.sourceRoot,
+      inputSourceMap
+    });
+    const map: SourceMap = result.map;
+    if (!inputSourceMap) {
+      map.sources = map.sources.map(source =>
+        source === defaultSourceFileName ? sourceFileName : source);
+    }
+    return {
+      code: result.code.replace(/\r/g, ''),
+      map
+    };
+  }
+
   /**
    * Like format(), but with newlines and indentation stripped.
    */
@@ -428,6 +969,97 @@ export class JsNode<T extends ast.Node, P> {
     return node;
   }
 
+  /**
+   * Returns true if the other node is structurally equal to this one, i.e. it
+   * has the same type and the same fields, regardless of formatting. Source
+   * locations and comments are ignored unless specified otherwise.
+   */
+  equals(other: (GenericJsNode | ast.Node), options?: EqualityOptions): boolean {
+    return !!other && nodesEqual(this.node, this.toAstNode(other), options);
+  }
+
+  /**
+   * Returns a hash that is the same for all structurally equal nodes. See
+   * equals().
+   */
+  structuralHash(options?: EqualityOptions): string {
+    return structuralHash(this.node, options);
+  }
+
+  /**
+   * Returns the first descendant that is structurally equal to the given
+   * node, e.g. to check whether generated code already exists before
+   * inserting it.
+   */
+  findEqual<T extends GenericJsNode>(node: (GenericJsNode | ast.Node),
+    options?: EqualityOptions): T {
+
+    const astNode = this.toAstNode(node);
+    return this.descendants<T>().filter(n => nodesEqual(n.node, astNode, options)).first();
+  }
+
+  /**
+   * Returns a deep copy of this node that is detached from the AST, so it can
+   * be inserted somewhere else. The copy has the same type as this node,
+   * including complex types like ReactClassComponent.
+   *
+   * Unless keepLocations is set, the copy is printed like a newly built node
+   * instead of reusing the original formatting.
+   */
+  clone(options?: CloneOptions): this {
+    const copy = new (<any>this.constructor)();
+    copy.node = cloneNode(this.node, options);
+    return copy;
+  }
+
+  /**
+   * Returns the comments directly before this node.
+   */
+  leadingComments(): ast.Comment[] {
+    return getLeadingComments(this.node);
+  }
+
+  /**
+   * Returns the comments directly after this node.
+   */
+  trailingComments(): ast.Comment[] {
+    return getTrailingComments(this.node);
+  }
+
+  /**
+   * Adds a comment before the node (or after it, if leading is false). The
+   * text is separated from the comment delimiters by a space, unless it
+   * starts with whitespace already. Throws if the text contains "*\/" in a
+   * block comment or a line break in a line comment.
+   */
+  addComment(text: string, options?: CommentOptions): this {
+    addComments(this.node, createComments(text, options));
+    return this;
+  }
+
+  /**
+   * Removes all comments attached to this node. Comments attached to
+   * descendants are kept.
+   */
+  removeComments(): this {
+    removeComments(this.node);
+    return this;
+  }
+
+  /**
+   * Returns the parsed JSDoc comment of this node, or undefined if there is
+   * none. For exported declarations, the comment precedes the export.
+   */
+  jsDoc(): JsDoc {
+    let comments = this.leadingComments();
+    const parent = this._path.parent;
+    if (comments.length === 0 && parent && /^Export\w*Declaration$/.test(parent.value.type)) {
+      comments = getLeadingComments(parent.value);
+    }
+    const docs = comments.filter(isJsDocComment);
+    return docs.length > 0 ? parseJsDoc(docs[docs.length - 1].value) : undefined;
+  }
+
   /**
    * Descends the AST and returns the next node that satisfies the
    * predicate callback.
@@ -435,7 +1067,7 @@ export class JsNode<T extends ast.Node, P> {
   descend<T extends GenericJsNode>(predicate?: (node: GenericJsNode) => boolean): T {
     let result: T;
     const self = this.node;
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.node === self) {
           this.traverse(p);
@@ -462,7 +1094,7 @@ export class JsNode<T extends ast.Node, P> {
 
     let result = new JsNodeList<T>();
     const self = this.node;
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.node === self && !includeSelf) {
           this.traverse(p);
@@ -489,7 +1121,7 @@ export class JsNode<T extends ast.Node, P> {
     let result: T;
     const checkType = this.checkType;
     const self = this.node;
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.node === self && !includeSelf) {
           this.traverse(p);
@@ -520,7 +1152,7 @@ export class JsNode<T extends ast.Node, P> {
 
     let result = new JsNodeList<T>(type);
     const self = this;
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.node === self.node && !includeSelf) {
           this.traverse(p);
@@ -536,6 +1168,63 @@ export class JsNode<T extends ast.Node, P> {
     return result;
   }
 
+  /**
+   * Returns the innermost node at a position in the parsed source, e.g. the
+   * node under the cursor in an editor. Lines start at 1 and columns at 0.
+   * With a type, returns the innermost node of that type instead, e.g. the
+   * class containing the position.
+   *
+   * Nodes that were added after parsing have no source location and are
+   * never returned.
+   */
+  nodeAt<T extends GenericJsNode>(line: number, column: number, type?: JsNodeType<T>): T {
+    const position = { line, column };
+    let result: T;
+    const self = this;
+    visit(this._path, {
+      visitNode: function (p: ast.NodePath) {
+        const node = JsNode.fromPath(p);
+        const loc = node.sourceLocation;
+        if (loc && !containsPosition(loc, position)) {
+          return false;
+        }
+        if (loc && (!type || self.checkType(node, type))) {
+          result = type ? node.castTo(type) : <T>node;
+        }
+        this.traverse(p);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Returns all nodes (of a type, if given) that are entirely within a range
+   * of the parsed source, in document order. The end position is exclusive.
+   * See nodeAt().
+   */
+  nodesInRange<T extends GenericJsNode>(start: ast.Position, end: ast.Position,
+    type?: JsNodeType<T>): JsNodeList<T> {
+
+    const result = new JsNodeList<T>(type);
+    const self = this;
+    visit(this._path, {
+      visitNode: function (p: ast.NodePath) {
+        const node = JsNode.fromPath(p);
+        const loc = node.sourceLocation;
+        if (loc && (compareSourcePositions(loc.end, start) <= 0 ||
+          compareSourcePositions(end, loc.start) <= 0)) {
+          return false;
+        }
+        if (loc && compareSourcePositions(start, loc.start) <= 0 &&
+          compareSourcePositions(loc.end, end) <= 0 && (!type || self.checkType(node, type))) {
+          result.pushPath(p);
+        }
+        this.traverse(p);
+      }
+    });
+    return result;
+  }
+
   /**
    * Descends the AST and returns all nodes of several given types that satisfy
    * the predicate.
@@ -546,7 +1235,7 @@ export class JsNode<T extends ast.Node, P> {
 
     let result = new JsNodeList<any>();
     const self = this;
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.node === self.node && !includeSelf) {
           this.traverse(p);
@@ -562,6 +1251,107 @@ export class JsNode<T extends ast.Node, P> {
     return result;
   }
 
+  /**
+   * Returns all nodes in this sub-tree in document order. Unlike the find
+   * methods, the AST is traversed lazily, so chains like
+   *
+   *   node.descendants().ofType(Identifier).first()
+   *
+   * only visit the nodes up to the first match.
+   */
+  descendants<T extends GenericJsNode>(includeSelf: boolean = false): LazyJsNodeList<T> {
+    const self = this._path;
+    return LazyJsNodeList.fromPaths<T>(function* () {
+      for (const path of walkPaths(self)) {
+        if (includeSelf || path !== self) {
+          yield path;
+        }
+      }
+    });
+  }
+
+  /**
+   * Descends the AST and returns the first node that matches a selector. See
+   * queryAll() for details.
+   */
+  query<T extends GenericJsNode>(selector: string): T {
+    const selectors = parseSelector(selector);
+    let result: T;
+    const self = this.node;
+    visit(this._path, {
+      visitNode: function (p: ast.NodePath) {
+        if (result) {
+          return false;
+        }
+        if (p.node !== self && matchesAnySelector(p, selectors)) {
+          result = JsNode.fromPath<T>(p);
+          return false;
+        }
+        this.traverse(p);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Descends the AST and returns all nodes that match a CSS-like selector, e.g.
+   *
+   *   ClassDeclaration > ClassBody > MethodDefinition[kind=method][key.name=render]
+   *
+   * Only descendants are returned, but the selector may refer to ancestors of
+   * this node. See Query.ts for the selector syntax.
+   */
+  queryAll<T extends GenericJsNode>(selector: string): JsNodeList<T> {
+    const selectors = parseSelector(selector);
+    let result = new JsNodeList<T>();
+    const self = this.node;
+    visit(this._path, {
+      visitNode: function (p: ast.NodePath) {
+        if (p.node !== self && matchesAnySelector(p, selectors)) {
+          result.pushPath(p);
+        }
+        this.traverse(p);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Matches a code template against this node and all of its descendants, e.g.
+   *
+   *   node.match('$obj.$method.bind(this)')
+   *
+   * Returns the matches in document order. See Template.ts for the template
+   * syntax.
+   */
+  match(template: (string | Template)): TemplateMatch[] {
+    return Template.from(template).matchAll(this);
+  }
+
+  /**
+   * Replaces all code in this sub-tree that matches the source template with
+   * the target template, e.g.
+   *
+   *   node.rewrite('$a == null', '$a === null || $a === undefined')
+   *
+   * Returns the number of rewritten sites. See Template.ts for details.
+   */
+  rewrite(source: (string | Template), target: (string | Template)): number {
+    return new RewriteRule(source, target).apply(this);
+  }
+
+  /**
+   * Runs the callback in a transaction on the AST that contains this node. If
+   * the callback throws or calls tx.abort(), all changes to the AST are rolled
+   * back. Use tx.savepoint() for nested transactions.
+   *
+   * Returns false if the transaction was aborted. Other errors are rethrown
+   * after rolling back. See Transaction.ts for details.
+   */
+  transaction(callback: TransactionCallback): boolean {
+    return Transaction.run(this, callback);
+  }
+
   findClosestParentOfType<T extends GenericJsNode>(type: JsNodeType<T>): T {
     const matchedNode = <T>this.ascend(node => this.checkType(node, type));
     if (matchedNode) {
@@ -612,34 +1402,40 @@ export class JsNode<T extends ast.Node, P> {
    * Returns the node at the root of the current AST.
    */
   getRoot<T extends GenericJsNode>(): T {
-    if (this._path.parent) {
-      let path = this._path;
-      while (path.parent) {
-        path = path.parent;
-      }
-      return JsNode.fromPath<T>(path);
+    let path = this._path;
+    while (path.parent) {
+      path = path.parent;
     }
+    return JsNode.fromPath<T>(path);
   }
 
   /**
    * Replaces the current node with another.
    */
-  replace(node: (GenericJsNode | ast.Node)): this {
+  replace(node: (GenericJsNode | ast.Node), options: ReplaceOptions = {}): this {
     let astNode = this.toAstNode(node);
+    this.repair();
+    if (options.keepComments) {
+      copyComments(this.node, astNode);
+    }
     if (!this._path.parent) {
       this._path = new ast.NodePath(astNode);
     } else {
       this._path.replace(astNode);
     }
-    return this;
+    this.adopt(node, this._path);
+    return this.repair();
   }
 
   /**
    * Removes the sub-tree from the AST that has this node at the root.
    */
   remove(): void {
-    if (this._path.parent) {
+    this.repair();
+    const parent = this._path.parent;
+    if (parent) {
       this._path.prune();
+      invalidateScopes(parent);
     }
   }
 
@@ -649,7 +1445,7 @@ export class JsNode<T extends ast.Node, P> {
   children<T extends GenericJsNode>(): JsNodeList<T> {
     const self = this.node;
     let children = new JsNodeList<T>();
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.parent && p.parent.node === self) {
           children.push(JsNode.fromPath<T>(p));
@@ -665,7 +1461,7 @@ export class JsNode<T extends ast.Node, P> {
    */
   removeChildren(predicate?: (node: GenericJsNode) => boolean): this {
     const self = this.node;
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         if (p.parent && p.parent.node === self) {
           const node = JsNode.fromPath(p);
@@ -676,14 +1472,14 @@ export class JsNode<T extends ast.Node, P> {
         this.traverse(p);
       }
     });
-    return this;
+    return this.repair();
   }
 
   /**
    * Removes all child matching descendants.
    */
   removeDescendants(predicate: (node: GenericJsNode) => boolean): this {
-    visit(this.node, {
+    visit(this._path, {
       visitNode: function (p: ast.NodePath) {
         const node = JsNode.fromPath(p);
         if (predicate(node)) {
@@ -692,23 +1488,27 @@ export class JsNode<T extends ast.Node, P> {
         this.traverse(p);
       }
     });
-    return this;
+    return this.repair();
   }
 
   /**
    * Inserts a new node as a sibling of the current node.
    */
   insertBefore(node: (GenericJsNode | ast.Node)): this {
+    this.repair();
     this._path.insertBefore(this.toAstNode(node));
-    return this;
+    this.adopt(node, this._path.parentPath);
+    return this.repair();
   }
 
   /**
    * Inserts a new node as a sibling of the current node.
    */
   insertAfter(node: (GenericJsNode | ast.Node)): this {
+    this.repair();
     this._path.insertAfter(this.toAstNode(node));
-    return this;
+    this.adopt(node, this._path.parentPath);
+    return this.repair();
   }
 
   /**
@@ -833,14 +1633,35 @@ export class JsNode<T extends ast.Node, P> {
   /**
    * Repairs the node after modifications occurred somewhere in its AST.
    *
-   * This re-establishes all parent relationships.
+   * This re-establishes all parent relationships: if the node was moved, e.g.
+   * by inserting siblings through another path or by editing the AST directly,
+   * the path is updated to its current location in the same AST. Scope
+   * information of the enclosing scopes is refreshed.
+   *
+   * This is called automatically by all methods that modify the AST.
    */
-  protected repair(): this {
-    // TODO
-    // this.path = JsNode.fromCollection(js(this.node)).path;
+  repair(): this {
+    const path = resolvePath(this._path) || findPath(getRootPath(this._path), this.node);
+    if (path) {
+      this._path = path;
+    }
+    invalidateScopes(this._path);
     return this;
   }
 
+  /**
+   * Points a JsNode that was inserted into the AST to its new location below
+   * the given path, so that it is connected to the rest of the AST.
+   */
+  protected adopt(node: (GenericJsNode | ast.Node), parent: ast.NodePath) {
+    if (node instanceof JsNode && node !== this) {
+      const path = findPath(parent, node.node);
+      if (path) {
+        node._path = path;
+      }
+    }
+  }
+
   /**
    * Maps each key in the meta object to an AST node.
    *
@@ -945,14 +1766,17 @@ export function JsContainerNode(options?: {
       };
     type.prototype.append = function(node: GenericJsNode) {
       this.getChildNodes().push(node.node);
+      this.adopt(node, this.repair().path);
       return this;
     };
     type.prototype.insert = function(index: number, node: GenericJsNode) {
       this.getChildNodes().splice(index, 0, node.node);
+      this.adopt(node, this.repair().path);
       return this;
     };
     type.prototype.prepend = function(node: GenericJsNode) {
       this.getChildNodes().splice(0, 0, node.node);
+      this.adopt(node, this.repair().path);
       return this;
     };
   };
@@ -0,0 +1,34 @@
+import { LazySequence } from './Lazy';
+
+describe('LazySequence', () => {
+  it('chain operations', () => {
+    const sequence = LazySequence.fromArray([1, 2, 3, 4, 5, 6]);
+    expect(sequence.filter(n => n % 2 === 0).map(n => n * 10).toArray()).toEqual([20, 40, 60]);
+    expect(sequence.take(2).toArray()).toEqual([1, 2]);
+    expect(sequence.take(0).toArray()).toEqual([]);
+    expect(sequence.first()).toBe(1);
+    expect(LazySequence.fromArray([]).first()).toBeUndefined();
+    expect(sequence.has(n => n > 5)).toBe(true);
+    expect(sequence.size()).toBe(6);
+    const values = [];
+    for (const n of sequence.filter((n, i) => i < 2)) {
+      values.push(n);
+    }
+    expect(values).toEqual([1, 2]);
+  });
+
+  it('stops evaluating early', () => {
+    let evaluated = 0;
+    const sequence = new LazySequence(function* () {
+      for (let i = 0; i < 100; i++) {
+        evaluated++;
+        yield i;
+      }
+    });
+    expect(sequence.map(n => n * 2).filter(n => n > 10).first()).toBe(12);
+    expect(evaluated).toBe(7);
+    evaluated = 0;
+    expect(sequence.has(n => n === 2)).toBe(true);
+    expect(evaluated).toBe(3);
+  });
+});
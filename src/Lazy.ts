@@ -0,0 +1,126 @@
+/**
+ * Lazily evaluated sequences. Operations like filter() and map() are only
+ * applied when the sequence is iterated, and iteration stops as soon as the
+ * result is known, e.g. in first() or has().
+ */
+
+export type LazySource<T> = () => Iterator<T>;
+
+export class LazySequence<T> implements Iterable<T> {
+  static fromArray<T>(values: T[]): LazySequence<T> {
+    return new LazySequence<T>(() => values[Symbol.iterator]());
+  }
+
+  /**
+   * The source is called for every iteration, so the sequence can be
+   * iterated more than once.
+   */
+  constructor(protected _source: LazySource<T>) {}
+
+  [Symbol.iterator](): Iterator<T> {
+    return this._source();
+  }
+
+  filter(predicate: (value: T, index?: number) => boolean): this {
+    const self = this;
+    return this.derive(function* () {
+      let index = 0;
+      for (const value of self) {
+        if (predicate(value, index++)) {
+          yield value;
+        }
+      }
+    });
+  }
+
+  map<U>(func: (value: T, index?: number) => U): LazySequence<U> {
+    const self = this;
+    return new LazySequence<U>(function* () {
+      let index = 0;
+      for (const value of self) {
+        yield func(value, index++);
+      }
+    });
+  }
+
+  /**
+   * Limits the sequence to the first count values.
+   */
+  take(count: number): this {
+    const self = this;
+    return this.derive(function* () {
+      if (count <= 0) {
+        return;
+      }
+      let index = 0;
+      for (const value of self) {
+        yield value;
+        if (++index >= count) {
+          return;
+        }
+      }
+    });
+  }
+
+  /**
+   * Returns the first value, or undefined if the sequence is empty.
+   */
+  first(): T {
+    for (const value of this) {
+      return value;
+    }
+  }
+
+  /**
+   * Returns true if the predicate evaluates to true for any value.
+   */
+  has(predicate: (value: T, index?: number) => boolean): boolean {
+    let index = 0;
+    for (const value of this) {
+      if (predicate(value, index++)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  forEach(func: (value: T, index?: number) => any): this {
+    let index = 0;
+    for (const value of this) {
+      func(value, index++);
+    }
+    return this;
+  }
+
+  /**
+   * Evaluates the entire sequence.
+   */
+  size(): number {
+    let size = 0;
+    for (const value of this) {
+      size++;
+    }
+    return size;
+  }
+
+  /**
+   * Evaluates the entire sequence.
+   */
+  toArray(): T[] {
+    const values: T[] = [];
+    for (const value of this) {
+      values.push(value);
+    }
+    return values;
+  }
+
+  /**
+   * Creates a sequence of the same type with a different source.
+   */
+  protected derive(source: LazySource<T>): this {
+    const sequence = Object.create(Object.getPrototypeOf(this));
+    Object.keys(this).forEach(key => sequence[key] = this[key]);
+    sequence._source = source;
+    return sequence;
+  }
+}
@@ -3,6 +3,20 @@
  */
 
 export * from './JsNode';
+export * from './Babylon';
+export * from './Lazy';
+export * from './Equality';
+export * from './Clone';
+export * from './Comments';
+export * from './Query';
+export * from './Template';
+export * from './Scope';
+export * from './Transaction';
+export * from './Diff';
+export * from './SourceFile';
+export * from './FileSystem';
+export * from './Glob';
+export * from './Runner';
 export * from './JsCode';
 export * from './Js';
 export * from './React';
@@ -0,0 +1,83 @@
+import { JsNode } from './JsNode';
+import { parseSelector } from './Query';
+import * as js from './Js';
+
+const code = `
+class Foo extends React.Component {
+  constructor() { super(); }
+  render() { return this.bar(); }
+}
+class Bar {
+  render() {}
+  static baz() { return 42; }
+}
+`;
+
+describe('Query', () => {
+  it('parse', () => {
+    const selectors = parseSelector('ClassBody > MethodDefinition[kind=method] Identifier, *[computed]');
+    expect(selectors.length).toBe(2);
+    expect(selectors[0].length).toBe(3);
+    expect(selectors[0][1].combinator).toBe('>');
+    expect(selectors[0][1].attributes).toEqual([
+      { path: ['kind'], operator: '=', value: 'method' }
+    ]);
+    expect(selectors[0][2].combinator).toBe(' ');
+    expect(selectors[1][0].typeName).toBeUndefined();
+    expect(selectors[1][0].attributes).toEqual([{ path: ['computed'] }]);
+  });
+
+  it('parse errors', () => {
+    expect(() => parseSelector('')).toThrowError(/Invalid selector/);
+    expect(() => parseSelector('Foo[kind=')).toThrowError(/expected a value/);
+    expect(() => parseSelector('Foo >')).toThrowError(/expected a type name/);
+  });
+
+  it('query all by type', () => {
+    const nodes = JsNode.fromModuleCode(code).queryAll('MethodDefinition');
+    expect(nodes.size()).toBe(4);
+    expect(nodes.at(0)).toBeInstanceOf(js.MethodDefinition);
+  });
+
+  it('query with combinators and attributes', () => {
+    const root = JsNode.fromModuleCode(code);
+    const render = root.queryAll<js.MethodDefinition>(
+      'ClassDeclaration[superClass.property.name=Component] > ClassBody > ' +
+      'MethodDefinition[kind=method][key.name=render]');
+    expect(render.size()).toBe(1);
+    expect(render.first().format()).toBe('render() { return this.bar(); }');
+    expect(root.queryAll('ClassDeclaration Literal').size()).toBe(1);
+    expect(root.queryAll('ClassDeclaration > Literal').size()).toBe(0);
+    expect(root.queryAll('MethodDefinition[static]').first().format())
+      .toBe('static baz() { return 42; }');
+    expect(root.queryAll('MethodDefinition[kind!=constructor]').size()).toBe(3);
+    expect(root.queryAll('MethodDefinition[key.name="baz"], Super').size()).toBe(2);
+  });
+
+  it('query base types and unregistered types', () => {
+    const root = JsNode.fromModuleCode('let foo = () => bar(42);');
+    expect(root.queryAll('Expression').size()).toBe(5);
+    expect(root.queryAll('ArrowFunctionExpression > CallExpression').size()).toBe(1);
+    expect(JsNode.fromModuleCode('a ? b : c;').queryAll('ConditionalExpression').size()).toBe(1);
+    expect(() => root.queryAll('NoSuchType')).toThrowError(/Invalid type/);
+  });
+
+  it('query first', () => {
+    const root = JsNode.fromModuleCode(code);
+    expect(root.query<js.Identifier>('ClassDeclaration > Identifier').name).toBe('Foo');
+    expect(root.query('WhileStatement')).toBeUndefined();
+  });
+
+  it('query relative to ancestors', () => {
+    const method = JsNode.fromModuleCode(code).findFirstChildOfType(js.MethodDefinition);
+    expect(method.queryAll('ClassBody CallExpression').size()).toBe(1);
+  });
+
+  it('query lists', () => {
+    const classes = JsNode.fromModuleCode(code).findChildrenOfType(js.ClassDeclaration);
+    expect(classes.queryAll('MethodDefinition').size()).toBe(4);
+    expect(classes.queryAll('Program Identifier[name=render]').size()).toBe(2);
+    expect(classes.query<js.Identifier>('MethodDefinition > Identifier').name)
+      .toBe('constructor');
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * A small CSS-like selector language for querying JsNode trees.
+ *
+ * A selector is a sequence of compound selectors, separated by combinators:
+ *
+ *   ClassDeclaration > ClassBody > MethodDefinition[kind=method][key.name=render]
+ *
+ * Compound selectors start with a type name (or "*", which matches any node)
+ * followed by any number of attribute predicates. Type names are resolved
+ * through JsNode.registeredTypes first, so "Expression" also matches all of
+ * its subclasses. Names of AST types that do not have a wrapper yet fall back
+ * to the ast-types definitions.
+ *
+ * Supported combinators are the descendant combinator (whitespace) and the
+ * child combinator (">"). Several selectors can be combined with ",".
+ *
+ * Attribute predicates test properties of the wrapped AST node, using dotted
+ * property paths:
+ *
+ *   [computed]           the property exists and is neither null nor false
+ *   [kind=method]        the property equals the given value
+ *   [kind!=constructor]  the property does not equal the given value
+ *   [key.name="render"]  values can be quoted
+ */
+
+import { ast } from '../deps/bundle';
+import { JsNode, GenericJsNode, InvalidTypeError } from './JsNode';
+
+export class SelectorSyntaxError extends Error {
+  constructor(public selector: string, public position: number, reason: string) {
+    super(`Invalid selector "${selector}" at position ${position}: ${reason}`);
+  }
+}
+
+export type SelectorCombinator = ' ' | '>';
+
+export type SelectorAttribute = {
+  path: string[],
+  operator?: '=' | '!=',
+  value?: string
+};
+
+export type SelectorCompound = {
+  typeName?: string,
+  attributes: SelectorAttribute[],
+  /**
+   * Relation to the compound on the left. Undefined for the first compound.
+   */
+  combinator?: SelectorCombinator
+};
+
+export type Selector = SelectorCompound[];
+
+/**
+ * Parses a (comma separated) selector list.
+ */
+export function parseSelector(selector: string): Selector[] {
+  return new SelectorParser(selector).parse();
+}
+
+/**
+ * Returns true if the node at the given path matches the selector.
+ *
+ * Combinators are resolved by following the parent relationships of the path,
+ * so ancestors are only found if the path is connected to them.
+ */
+export function matchesSelector(path: ast.NodePath, selector: Selector): boolean {
+  return matchCompoundAt(path, selector, selector.length - 1);
+}
+
+/**
+ * Returns true if the node at the given path matches any of the selectors.
+ */
+export function matchesAnySelector(path: ast.NodePath, selectors: Selector[]): boolean {
+  return selectors.some(selector => matchesSelector(path, selector));
+}
+
+function matchCompoundAt(path: ast.NodePath, selector: Selector, index: number): boolean {
+  const compound = selector[index];
+  if (!matchCompound(path, compound)) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+  if (compound.combinator === '>') {
+    return !!path.parent && matchCompoundAt(path.parent, selector, index - 1);
+  }
+  for (let ancestor = path.parent; ancestor; ancestor = ancestor.parent) {
+    if (matchCompoundAt(ancestor, selector, index - 1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns true if the type name refers to a registered JsNode type or to an
+ * ast-types definition.
+ */
+export function isTypeName(typeName: string): boolean {
+  return !!JsNode.getType(typeName) || !!ast.namedTypes[typeName];
+}
+
+/**
+ * Returns true if the node at the given path is of the named type. Registered
+ * JsNode types take precedence over ast-types definitions.
+ */
+export function matchesTypeName(path: ast.NodePath, typeName: string): boolean {
+  const type = JsNode.getType<GenericJsNode>(typeName);
+  if (type) {
+    const node = JsNode.fromPath(path);
+    return type.check ? type.check(node) : node instanceof type;
+  }
+  const namedType = ast.namedTypes[typeName];
+  if (namedType) {
+    return namedType.check(path.value);
+  }
+  throw new InvalidTypeError(typeName);
+}
+
+function matchCompound(path: ast.NodePath, compound: SelectorCompound): boolean {
+  if (compound.typeName && !matchesTypeName(path, compound.typeName)) {
+    return false;
+  }
+  return compound.attributes.every(attribute => matchAttribute(path.value, attribute));
+}
+
+function matchAttribute(node: ast.Node, attribute: SelectorAttribute): boolean {
+  let value: any = node;
+  for (const name of attribute.path) {
+    if (value === null || value === undefined) {
+      break;
+    }
+    value = value[name];
+  }
+  if (!attribute.operator) {
+    return value !== undefined && value !== null && value !== false;
+  }
+  const equal = (value === null || typeof value !== 'object') &&
+    String(value) === attribute.value;
+  return attribute.operator === '=' ? equal : !equal;
+}
+
+const identifierExp = /^[A-Za-z_$][\w$]*/;
+
+class SelectorParser {
+  private position = 0;
+
+  constructor(private selector: string) {}
+
+  parse(): Selector[] {
+    const selectors: Selector[] = [this.parseSelector()];
+    while (this.consume(',')) {
+      selectors.push(this.parseSelector());
+    }
+    if (!this.isAtEnd()) {
+      this.fail(`unexpected "${this.peek()}"`);
+    }
+    return selectors;
+  }
+
+  private parseSelector(): Selector {
+    const selector: Selector = [this.parseCompound()];
+    while (true) {
+      const hadWhitespace = this.skipWhitespace();
+      if (this.isAtEnd() || this.peek() === ',') {
+        return selector;
+      }
+      let combinator: SelectorCombinator = ' ';
+      if (this.consume('>')) {
+        combinator = '>';
+      } else if (!hadWhitespace) {
+        this.fail(`unexpected "${this.peek()}"`);
+      }
+      const compound = this.parseCompound();
+      compound.combinator = combinator;
+      selector.push(compound);
+    }
+  }
+
+  private parseCompound(): SelectorCompound {
+    this.skipWhitespace();
+    const compound: SelectorCompound = { attributes: [] };
+    const universal = this.consume('*');
+    if (!universal) {
+      compound.typeName = this.matchIdentifier();
+    }
+    while (this.peek() === '[') {
+      compound.attributes.push(this.parseAttribute());
+    }
+    if (!universal && !compound.typeName && compound.attributes.length === 0) {
+      this.fail('expected a type name, "*" or an attribute');
+    }
+    return compound;
+  }
+
+  private parseAttribute(): SelectorAttribute {
+    this.expect('[');
+    this.skipWhitespace();
+    const attribute: SelectorAttribute = { path: [this.expectIdentifier()] };
+    while (this.consume('.')) {
+      attribute.path.push(this.expectIdentifier());
+    }
+    this.skipWhitespace();
+    if (this.consume('!=')) {
+      attribute.operator = '!=';
+    } else if (this.consume('=')) {
+      attribute.operator = '=';
+    }
+    if (attribute.operator) {
+      this.skipWhitespace();
+      attribute.value = this.parseValue();
+      this.skipWhitespace();
+    }
+    this.expect(']');
+    return attribute;
+  }
+
+  private parseValue(): string {
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      const end = this.selector.indexOf(quote, this.position + 1);
+      if (end < 0) {
+        this.fail('unterminated string');
+      }
+      const value = this.selector.slice(this.position + 1, end);
+      this.position = end + 1;
+      return value;
+    }
+    const match = /^[^\]\s]+/.exec(this.selector.slice(this.position));
+    if (!match) {
+      this.fail('expected a value');
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private matchIdentifier(): string {
+    const match = identifierExp.exec(this.selector.slice(this.position));
+    if (match) {
+      this.position += match[0].length;
+      return match[0];
+    }
+  }
+
+  private expectIdentifier(): string {
+    const identifier = this.matchIdentifier();
+    if (!identifier) {
+      this.fail('expected an identifier');
+    }
+    return identifier;
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.position;
+    while (/\s/.test(this.peek())) {
+      this.position++;
+    }
+    return this.position > start;
+  }
+
+  private consume(token: string): boolean {
+    if (this.selector.substr(this.position, token.length) === token) {
+      this.position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string) {
+    if (!this.consume(token)) {
+      this.fail(`expected "${token}"`);
+    }
+  }
+
+  private peek(): string {
+    return this.selector.charAt(this.position);
+  }
+
+  private isAtEnd(): boolean {
+    return this.position >= this.selector.length;
+  }
+
+  private fail(reason: string) {
+    throw new SelectorSyntaxError(this.selector, this.position, reason);
+  }
+}
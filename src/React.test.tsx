@@ -92,6 +92,16 @@ describe('jscode/react', () => {
     expect(node instanceof react.ReactClassComponent).toBe(true);
   });
 
+  it('Clone ReactClassComponent', () => {
+    const code = 'class Foo extends React.Component {}';
+    const node = JsNode.fromModuleCode(code)
+      .findFirstChildOfType(react.ReactClassComponent);
+    const copy = node.clone();
+    expect(copy instanceof react.ReactClassComponent).toBe(true);
+    expect(copy.id().name).toBe('Foo');
+    expect(copy.node).not.toBe(node.node);
+  });
+
   it('ReactClassComponent methods', () => {
     const code = 'class Foo extends React.Component {}';
     const node = JsNode.fromModuleCode(code)
@@ -146,6 +156,29 @@ describe('jscode/react', () => {
     bar(event) {
         return 42;
     }
+}`);
+  });
+
+  it('Convert keeping comments', () => {
+    const component = JsNode.fromModuleCode([
+      '// Foo',
+      'class Foo extends React.Component {',
+      '  /** Renders. */',
+      '  render() {}',
+      '}'
+    ].join('\n')).findFirstChildOfType(react.ReactClassComponent);
+    const converted = component.convertToReactComponent({ keepComments: true });
+    expect(converted.format()).toBe(
+`// Foo
+const Foo = React.createClass({
+    /** Renders. */
+    render() {}
+});`);
+    expect(converted.convertToReactClassComponent({ keepComments: true }).format()).toBe(
+`// Foo
+class Foo extends React.Component {
+    /** Renders. */
+    render() {}
 }`);
   });
 });
@@ -12,7 +12,8 @@
 // TODO: we probably want to split this up into multiple files in their own
 // directory.
 
-import { JsNode, JsNodeType, GenericJsNode } from './JsNode';
+import { JsNode, JsNodeType, GenericJsNode, ReplaceOptions } from './JsNode';
+import { copyComments } from './Comments';
 import { ast } from '../deps/bundle';
 import * as js from './Js';
 
@@ -29,6 +30,15 @@ export type StatefulReactComponent = (
   ReactClassComponent
 );
 
+function keepComments<T extends ast.Node>(source: ast.Node, target: T,
+  options: ReplaceOptions): T {
+
+  if (options.keepComments) {
+    copyComments(source, target);
+  }
+  return target;
+}
+
 function find(children: GenericJsNode[], type: JsNodeType<any>): GenericJsNode {
   for (let child of children) {
     if (child instanceof type) {
@@ -83,14 +93,12 @@ export class ReactStatelessComponent
   build(props: ReactStatelessComponentProps,
     children: GenericJsNode[]): this {
 
+    const render = new js.ArrowFunctionExpression().build(
+      { body: find(children, ReactComponentRender) },
+      [new js.Identifier().build({ name: 'props' })]
+    );
     this.node = b.variableDeclaration('const', [
-      b.variableDeclarator(
-        b.identifier(props.name),
-        b.arrowFunctionExpression(
-          [b.identifier('props')],
-          getRenderBodyFromChildren(children)
-        )
-      )
+      b.variableDeclarator(b.identifier(props.name), render.node)
     ]);
     return this;
   }
@@ -196,11 +204,15 @@ export class ReactComponent
     throw 'TODO';
   }
 
-  convertToReactClassComponent() {
+  /**
+   * Replaces the createClass() call with an equivalent class. With
+   * keepComments, the comments of the declaration and its methods are kept.
+   */
+  convertToReactClassComponent(options: ReplaceOptions = {}) {
     const methods = this
       .findFirstChildOfType(js.ObjectExpression)
       .children<js.Property>()
-      .map(prop => b.methodDefinition(
+      .map(prop => keepComments(prop.node, b.methodDefinition(
         'method',
         b.identifier(prop.key().name),
         b.functionExpression(
@@ -208,7 +220,7 @@ export class ReactComponent
           prop.findFirstChildOfType(js.FunctionExpression).params().nodes<ast.Pattern>(),
           prop.findFirstChildOfType(js.BlockStatement).node
         )
-      ));
+      ), options));
     const className = this.declarations().first().id().name;
     this.replace(
       b.classDeclaration(
@@ -218,7 +230,8 @@ export class ReactComponent
           b.identifier('React'),
           b.identifier('Component')
         )
-      )
+      ),
+      options
     );
     return this.castTo(ReactClassComponent);
   }
@@ -323,16 +336,20 @@ export class ReactClassComponent
     // );
   }
 
-  convertToReactComponent() {
+  /**
+   * Replaces the class with an equivalent createClass() call. With
+   * keepComments, the comments of the class and its methods are kept.
+   */
+  convertToReactComponent(options: ReplaceOptions = {}) {
     let methods = this.findChildrenOfType(js.MethodDefinition, node => node.kind === 'method');
-    let properties: ast.Property[] = methods.map(method =>
+    let properties: ast.Property[] = methods.map(method => keepComments(method.node,
       b.property('init', b.identifier(method.methodName()),
         b.functionExpression(
           null,
           method.methodArgs().map(m => m.node),
           method.body().node as ast.BlockStatement
         )
-      )
+      ), options)
     );
     properties.forEach(property => property.method = true);
     this.replace(
@@ -344,7 +361,8 @@ export class ReactClassComponent
             [b.objectExpression(properties)]
           )
         )
-      ])
+      ]),
+      options
     );
     return this.castTo(ReactComponent);
   }
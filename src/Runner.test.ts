@@ -0,0 +1,87 @@
+import { Runner, Transformation } from './Runner';
+import { MemoryFileSystem } from './FileSystem';
+
+const renameFoo: Transformation = {
+  name: 'rename-foo',
+  apply: (file, params) => {
+    file.root.rewrite('foo()', `${params['name'] || 'bar'}()`);
+  }
+};
+
+const onlyJsx: Transformation = {
+  name: 'only-jsx',
+  accepts: file => /\.jsx$/.test(file.fileName),
+  apply: file => undefined
+};
+
+const failing: Transformation = {
+  name: 'failing',
+  accepts: file => file.fileName.indexOf('fail') >= 0,
+  apply: file => {
+    file.root.rewrite('foo()', 'baz()');
+    throw new Error('failed');
+  }
+};
+
+function createFileSystem() {
+  return new MemoryFileSystem({
+    'src/a.js': 'foo();\n',
+    'src/b.js': 'baz();\n',
+    'src/fail.js': 'foo();\n',
+    'src/invalid.js': 'foo(;\n',
+    'src/c.jsx': 'foo();\n',
+    'src/d.ts': 'foo();\n'
+  });
+}
+
+describe('Runner', () => {
+  it('transform files', () => {
+    const fileSystem = createFileSystem();
+    const report = new Runner([renameFoo, failing], { fileSystem }).run('src');
+    expect(report.results.map(r => r.fileName)).toEqual([
+      'src/a.js', 'src/b.js', 'src/c.jsx', 'src/fail.js', 'src/invalid.js'
+    ]);
+    expect(report.changed().map(r => r.fileName)).toEqual(['src/a.js', 'src/c.jsx']);
+    expect(report.unchanged().map(r => r.fileName)).toEqual(['src/b.js']);
+    expect(report.errored().map(r => r.fileName)).toEqual(['src/fail.js', 'src/invalid.js']);
+    expect(report.hasErrors()).toBe(true);
+    expect(fileSystem.readFile('src/a.js')).toBe('bar();\n');
+    expect(fileSystem.readFile('src/fail.js')).toBe('foo();\n');
+    expect(report.summary().split('\n')).toEqual([
+      'Error in src/fail.js: failed',
+      jasmine.stringMatching(/^Error in src\/invalid.js: /),
+      '2 changed, 1 unchanged, 0 skipped, 2 errored'
+    ]);
+  });
+
+  it('dry run', () => {
+    const fileSystem = createFileSystem();
+    const report = new Runner(renameFoo, { fileSystem, dryRun: true, params: { name: 'qux' } })
+      .run(['src/*.js', 'src/a.js']);
+    expect(report.changed().length).toBe(2);
+    expect(report.changed()[0].file.format()).toBe('qux();\n');
+    expect(fileSystem.readFile('src/a.js')).toBe('foo();\n');
+    expect(report.summary()).toContain('(dry run)');
+  });
+
+  it('skip files', () => {
+    const fileSystem = createFileSystem();
+    const report = new Runner(onlyJsx, { fileSystem }).run(['src/*.js*', 'src/missing.js']);
+    expect(report.skipped().map(r => r.fileName)).toEqual(['src/a.js', 'src/b.js', 'src/fail.js']);
+    expect(report.unchanged().map(r => r.transformations)).toEqual([['only-jsx']]);
+    expect(report.errored().map(r => r.fileName)).toEqual(['src/invalid.js', 'src/missing.js']);
+  });
+
+  it('file extensions', () => {
+    const fileSystem = createFileSystem();
+    const report = new Runner(renameFoo, { fileSystem, extensions: ['.ts'] }).run('src');
+    expect(report.results.map(r => r.fileName)).toEqual(['src/d.ts']);
+  });
+
+  it('ignore files', () => {
+    const fileSystem = createFileSystem();
+    fileSystem.writeFile('src/node_modules/dep.js', 'foo();\n');
+    const report = new Runner(renameFoo, { fileSystem, ignore: ['fail.js', 'src/*.jsx'] }).run('src');
+    expect(report.results.map(r => r.fileName)).toEqual(['src/a.js', 'src/b.js', 'src/invalid.js']);
+  });
+});
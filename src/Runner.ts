@@ -0,0 +1,198 @@
+/**
+ * Applies transformations to a set of files:
+ *
+ *   const report = new Runner([transformation], { dryRun: true })
+ *     .run(['src', 'test/*.spec.js']);
+ *   console.log(report.summary());
+ *
+ * Every file is parsed once and passed through all transformations in order.
+ * Failures are isolated per file; a file that fails in any transformation is
+ * reported and left untouched.
+ */
+
+import { SourceFile } from './SourceFile';
+import { FileSystem, NodeFileSystem, joinPath } from './FileSystem';
+import { isGlob, expandGlob } from './Glob';
+
+export type TransformationParams = {
+  [name: string]: any
+};
+
+export interface Transformation {
+  /**
+   * Used to identify the transformation in reports.
+   */
+  name: string;
+
+  /**
+   * Returns false if the transformation does not apply to a file. Files that
+   * no transformation applies to are skipped.
+   */
+  accepts?(file: SourceFile, params: TransformationParams): boolean;
+
+  /**
+   * Transforms the file by modifying file.root.
+   */
+  apply(file: SourceFile, params: TransformationParams): void;
+}
+
+export type RunnerOptions = {
+  /**
+   * If true, files are transformed but not written.
+   */
+  dryRun?: boolean,
+  params?: TransformationParams,
+  /**
+   * Passed on to the parser, see JsNode.parse().
+   */
+  parserArgs?: Object,
+  /**
+   * Extensions of the files that are transformed when a directory is given.
+   * Defaults to .js and .jsx.
+   */
+  extensions?: string[],
+  /**
+   * Patterns of files and directories to skip when expanding directories and
+   * globs, see ExpandGlobOptions.
+   */
+  ignore?: string[],
+  /**
+   * Defaults to the local file system.
+   */
+  fileSystem?: FileSystem
+};
+
+export type FileStatus = 'changed' | 'unchanged' | 'skipped' | 'error';
+
+export type FileResult = {
+  fileName: string,
+  status: FileStatus,
+  /**
+   * The names of the transformations that were applied.
+   */
+  transformations: string[],
+  /**
+   * Undefined if the file could not be read or parsed.
+   */
+  file?: SourceFile,
+  error?: Error
+};
+
+export class RunnerReport {
+  constructor(public results: FileResult[] = [], public dryRun = false) {}
+
+  changed(): FileResult[] {
+    return this.withStatus('changed');
+  }
+
+  unchanged(): FileResult[] {
+    return this.withStatus('unchanged');
+  }
+
+  skipped(): FileResult[] {
+    return this.withStatus('skipped');
+  }
+
+  errored(): FileResult[] {
+    return this.withStatus('error');
+  }
+
+  hasErrors(): boolean {
+    return this.errored().length > 0;
+  }
+
+  /**
+   * Returns a human readable summary, listing the errors.
+   */
+  summary(): string {
+    const lines = this.errored().map(result =>
+      `Error in ${result.fileName}: ${result.error.message}`);
+    lines.push([
+      `${this.changed().length} changed`,
+      `${this.unchanged().length} unchanged`,
+      `${this.skipped().length} skipped`,
+      `${this.errored().length} errored`
+    ].join(', ') + (this.dryRun ? ' (dry run)' : ''));
+    return lines.join('\n');
+  }
+
+  protected withStatus(status: FileStatus): FileResult[] {
+    return this.results.filter(result => result.status === status);
+  }
+}
+
+export class Runner {
+  protected transformations: Transformation[];
+  protected fileSystem: FileSystem;
+
+  constructor(transformations: (Transformation | Transformation[]),
+    public options: RunnerOptions = {}) {
+
+    this.transformations = Array.isArray(transformations) ? transformations : [transformations];
+    this.fileSystem = options.fileSystem || new NodeFileSystem();
+  }
+
+  /**
+   * Transforms all files matching the given paths, directories or globs.
+   */
+  run(patterns: (string | string[])): RunnerReport {
+    const fileNames = this.expandPatterns(Array.isArray(patterns) ? patterns : [patterns]);
+    return new RunnerReport(
+      fileNames.map(fileName => this.runFile(fileName)), !!this.options.dryRun);
+  }
+
+  /**
+   * Transforms a single file. Never throws; errors are part of the result.
+   */
+  runFile(fileName: string): FileResult {
+    const result: FileResult = { fileName, status: 'skipped', transformations: [] };
+    const params = this.options.params || {};
+    try {
+      const file = SourceFile.parse(
+        this.fileSystem.readFile(fileName), fileName, this.options.parserArgs);
+      result.file = file;
+      this.transformations.forEach(transformation => {
+        if (!transformation.accepts || transformation.accepts(file, params)) {
+          transformation.apply(file, params);
+          result.transformations.push(transformation.name);
+        }
+      });
+      if (result.transformations.length > 0) {
+        result.status = file.isModified() ? 'changed' : 'unchanged';
+      }
+      if (result.status === 'changed' && !this.options.dryRun) {
+        this.fileSystem.writeFile(fileName, file.format());
+      }
+    } catch (e) {
+      result.status = 'error';
+      result.error = e;
+    }
+    return result;
+  }
+
+  /**
+   * Resolves globs and directories. Paths that do not exist are kept, so that
+   * they are reported as errors.
+   */
+  protected expandPatterns(patterns: string[]): string[] {
+    const fileNames: string[] = [];
+    const add = (fileName: string) => {
+      if (fileNames.indexOf(fileName) < 0) {
+        fileNames.push(fileName);
+      }
+    };
+    const extensions = this.options.extensions || ['.js', '.jsx'];
+    const globOptions = { ignore: this.options.ignore };
+    patterns.forEach(pattern => {
+      if (isGlob(pattern)) {
+        expandGlob(pattern, this.fileSystem, globOptions).forEach(add);
+      } else if (this.fileSystem.isDirectory(pattern)) {
+        const exp = extensions.map(e => e.replace(/^\./, '')).join(',');
+        expandGlob(joinPath(pattern, `**/*.{${exp}}`), this.fileSystem, globOptions).forEach(add);
+      } else {
+        add(pattern);
+      }
+    });
+    return fileNames;
+  }
+}
@@ -0,0 +1,115 @@
+import { JsNode } from './JsNode';
+import * as js from './Js';
+
+function findIdentifiers(root, name: string) {
+  return root.findChildrenOfType(js.Identifier, id => id.name === name);
+}
+
+describe('Binding', () => {
+  const code = [
+    'let x = 1;',
+    'function f(x, y) {',
+    '  let z = x;',
+    '  return function g() { return x + z + w + y; };',
+    '}',
+    'f(x);'
+  ].join('\n');
+
+  it('declaration and references', () => {
+    const root = JsNode.fromModuleCode(code);
+    const ids = findIdentifiers(root, 'x');
+    expect(ids.size()).toBe(5);
+    // The global x
+    expect(ids.at(0).binding().isGlobal()).toBe(true);
+    expect(ids.at(4).declaration().node).toBe(ids.at(0).node);
+    expect(ids.at(0).references().size()).toBe(1);
+    // The parameter x
+    expect(ids.at(1).binding().scope()).toBeInstanceOf(js.FunctionDeclaration);
+    expect(ids.at(3).declaration().node).toBe(ids.at(1).node);
+    expect(ids.at(1).references().size()).toBe(2);
+  });
+
+  it('shadowing', () => {
+    const ids = findIdentifiers(JsNode.fromModuleCode(code), 'x');
+    expect(ids.at(0).isShadowed()).toBe(false);
+    expect(ids.at(2).isShadowed()).toBe(true);
+    expect(ids.at(2).binding().shadows().isGlobal()).toBe(true);
+  });
+
+  it('free and global identifiers', () => {
+    const root = JsNode.fromModuleCode(code);
+    const w = findIdentifiers(root, 'w').first();
+    expect(w.isFree()).toBe(true);
+    expect(w.isGlobal()).toBe(true);
+    expect(w.binding()).toBeUndefined();
+    const z = findIdentifiers(root, 'z').first();
+    expect(z.isFree()).toBe(false);
+    expect(z.isGlobal()).toBe(false);
+  });
+
+  it('non-references', () => {
+    const root = JsNode.fromModuleCode('let foo = 1; bar.foo = { foo: 2 };');
+    const ids = findIdentifiers(root, 'foo');
+    expect(ids.size()).toBe(3);
+    expect(ids.at(0).references().size()).toBe(0);
+    expect(ids.at(1).binding()).toBeUndefined();
+    expect(ids.at(1).isFree()).toBe(false);
+  });
+
+  it('rename', () => {
+    const root = JsNode.fromModuleCode(code);
+    findIdentifiers(root, 'x').at(3).rename('a');
+    expect(root.format()).toBe(code
+      .replace('f(x, y)', 'f(a, y)')
+      .replace('z = x', 'z = a')
+      .replace('return x', 'return a'));
+  });
+
+  it('rename variable declarator', () => {
+    const root = JsNode.fromModuleCode('const foo = 1; const p = { foo }; log(foo);');
+    root.findFirstChildOfType(js.VariableDeclarator).rename('bar');
+    expect(root.format()).toBe('const bar = 1; const p = { foo: bar }; log(bar);');
+  });
+
+  it('rename function declaration', () => {
+    const root = JsNode.fromModuleCode('function f(f) { return f; } f(1);');
+    findIdentifiers(root, 'f').first().rename('g');
+    expect(root.format()).toBe('function g(f) { return f; } g(1);');
+  });
+
+  it('rename imports and exports', () => {
+    const root = JsNode.fromModuleCode(
+      'import { foo } from "foo";\nfoo();\nexport { foo };', { sourceType: 'module' });
+    findIdentifiers(root, 'foo').at(2).rename('bar');
+    expect(root.format()).toBe(
+      'import { foo as bar } from "foo";\nbar();\nexport { bar as foo };');
+  });
+
+  it('refuses colliding names', () => {
+    const root = JsNode.fromModuleCode(code);
+    const ids = findIdentifiers(root, 'x');
+    // Declared in the same scope
+    expect(() => ids.at(1).rename('y')).toThrowError(/already declared/);
+    // Declared in a nested scope
+    expect(() => ids.at(1).rename('g')).toThrowError(/nested scope/);
+    // Would capture a free variable
+    expect(() => ids.at(1).rename('w')).toThrowError(/already used/);
+    expect(() => ids.at(1).rename('1x')).toThrowError(/valid identifier/);
+    expect(ids.at(1).binding().canRename('q')).toBe(true);
+    expect(root.format()).toBe(code);
+  });
+
+  it('refuses names declared in several blocks', () => {
+    const blocks = 'function f() {\n  { let x = 1; log(x); }\n  { let x = 2; log(x); }\n}';
+    const root = JsNode.fromModuleCode(blocks);
+    const ids = findIdentifiers(root, 'x');
+    // ast-types does not know block scopes, so both declarations are one binding
+    expect(ids.at(0).binding().declarations().size()).toBe(2);
+    expect(() => ids.at(0).rename('y')).toThrowError(/several blocks/);
+    expect(root.format()).toBe(blocks);
+
+    const single = JsNode.fromModuleCode('function f() {\n  { let x = 1; log(x); }\n}');
+    findIdentifiers(single, 'x').at(0).rename('y');
+    expect(single.format()).toBe('function f() {\n  { let y = 1; log(y); }\n}');
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Binding analysis based on the scope information provided by ast-types.
+ *
+ * A binding connects a name declared in a scope with all identifiers that
+ * refer to it. Note that ast-types treats let and const like var, so blocks do
+ * not establish scopes of their own: "x" in "{ let x; } { let x; }" is a
+ * single binding with two declarations. Renaming such bindings would rename
+ * both, so rename() refuses to.
+ */
+
+import { ast, recast } from '../deps/bundle';
+import { JsNode, JsNodeList, GenericJsNode } from './JsNode';
+
+const visit = recast.visit;
+const b = ast.builders;
+
+const identifierExp = /^[A-Za-z_$][\w$]*$/;
+
+const patternTypes = ['ObjectPattern', 'ArrayPattern', 'Property', 'AssignmentPattern', 'RestElement'];
+
+const blockTypes = [
+  'BlockStatement', 'SwitchCase', 'ForStatement', 'ForInStatement', 'ForOfStatement', 'Program'
+];
+
+export class RenameCollisionError extends Error {
+  constructor(public name: string, public newName: string, reason: string) {
+    super(`Can not rename "${name}" to "${newName}": ${reason}`);
+  }
+}
+
+/**
+ * Represents a name declared in a scope.
+ */
+export class Binding {
+  /**
+   * Returns the binding an identifier refers to, or undefined if the
+   * identifier is free (i.e. not declared anywhere) or is not a variable
+   * reference at all, like the property in "foo.bar".
+   */
+  static fromPath(path: ast.NodePath): Binding {
+    if (!isReference(path)) {
+      return;
+    }
+    const name = path.value['name'];
+    const scope = getLookupScope(path);
+    const declaringScope = scope && scope.lookup(name);
+    if (declaringScope) {
+      return new Binding(name, declaringScope);
+    }
+  }
+
+  static fromNode(node: GenericJsNode): Binding {
+    return Binding.fromPath(node.path);
+  }
+
+  constructor(public name: string, protected _scope: ast.Scope) {}
+
+  /**
+   * Returns the node that establishes the scope of this binding (a Program,
+   * function or catch clause).
+   */
+  scope(): GenericJsNode {
+    return JsNode.fromPath(this._scope.path);
+  }
+
+  /**
+   * Returns true if both bindings refer to the same declaration.
+   */
+  equals(other: Binding): boolean {
+    return !!other && other.name === this.name && other._scope.node === this._scope.node;
+  }
+
+  /**
+   * Returns true if the binding is declared in the global scope.
+   */
+  isGlobal(): boolean {
+    return this._scope.isGlobal;
+  }
+
+  /**
+   * Returns the first declaring identifier.
+   */
+  declaration<T extends GenericJsNode>(): T {
+    return this.declarations<T>().first();
+  }
+
+  /**
+   * Returns all declaring identifiers. There can be more than one if a name
+   * is declared repeatedly using var.
+   */
+  declarations<T extends GenericJsNode>(): JsNodeList<T> {
+    return JsNodeList.fromPaths(this._scope.getBindings()[this.name] || []);
+  }
+
+  /**
+   * Returns all identifiers that refer to this binding, excluding the
+   * declarations.
+   */
+  references<T extends GenericJsNode>(): JsNodeList<T> {
+    const declarations = this.declarations().nodes();
+    return this.findIdentifiers(this.name, path => {
+      return declarations.indexOf(path.value) < 0 && this.equals(Binding.fromPath(path));
+    });
+  }
+
+  /**
+   * Returns the binding with the same name in an enclosing scope that is
+   * hidden by this binding, if any.
+   */
+  shadows(): Binding {
+    const parent = getParentScope(this._scope);
+    const outer = parent && parent.lookup(this.name);
+    if (outer) {
+      return new Binding(this.name, outer);
+    }
+  }
+
+  /**
+   * Returns true if renaming the binding to the given name would change the
+   * meaning of the program. See rename().
+   */
+  canRename(newName: string): boolean {
+    return !this.findCollision(newName);
+  }
+
+  /**
+   * Renames the declarations and all references of this binding.
+   *
+   * Throws a RenameCollisionError if the new name is already declared in the
+   * same scope, if a reference would end up referring to a declaration of the
+   * new name in a nested scope, if an existing reference to the new name
+   * would end up referring to this binding, or if the binding is declared by
+   * let, const or class in more than one block.
+   */
+  rename(newName: string): this {
+    const collision = this.findCollision(newName);
+    if (collision) {
+      throw new RenameCollisionError(this.name, newName, collision);
+    }
+    const paths = this.declarations().map(node => node.path)
+      .concat(this.references().map(node => node.path));
+    paths.forEach(path => renameIdentifier(path, newName));
+    this.name = newName;
+    this._scope.scan(true);
+    return this;
+  }
+
+  protected findCollision(newName: string): string {
+    if (!identifierExp.test(newName)) {
+      return 'not a valid identifier';
+    }
+    if (newName === this.name) {
+      return;
+    }
+    if (this._scope.declares(newName)) {
+      return 'the name is already declared in the same scope';
+    }
+    const blocks = this.declarations().map(node => getDeclaringBlock(node.path, this._scope));
+    if (blocks.some(block => block !== blocks[0])) {
+      return 'the name is declared in several blocks, which is not supported';
+    }
+    const paths = this.declarations().map(node => node.path)
+      .concat(this.references().map(node => node.path));
+    for (const path of paths) {
+      const scope = getLookupScope(path);
+      const declaringScope = scope && scope.lookup(newName);
+      if (declaringScope && isInnerScope(declaringScope, this._scope)) {
+        return 'the name is declared in a nested scope';
+      }
+    }
+    const captured = this.findIdentifiers(newName, path => {
+      const binding = Binding.fromPath(path);
+      return !binding || !isInnerScope(binding._scope, this._scope);
+    });
+    if (captured.size() > 0) {
+      return 'the name is already used in the same scope';
+    }
+  }
+
+  /**
+   * Finds all references with a given name in the scope of this binding.
+   */
+  protected findIdentifiers<T extends GenericJsNode>(name: string,
+    predicate: (path: ast.NodePath) => boolean): JsNodeList<T> {
+
+    const result = new JsNodeList<T>();
+    const check = function (p: ast.NodePath) {
+      if (p.value.name === name && isReference(p) && predicate(p)) {
+        result.pushPath(p);
+      }
+      this.traverse(p);
+    };
+    visit(this._scope.path, {
+      visitIdentifier: check,
+      visitJSXIdentifier: check
+    });
+    return result;
+  }
+}
+
+/**
+ * Returns true if the identifier at the given path refers to a variable.
+ * Property names, labels and the like are not references.
+ */
+export function isReference(path: ast.NodePath): boolean {
+  const node = path.value;
+  const parent = path.parent && path.parent.value;
+  if (!node || (node.type !== 'Identifier' && node.type !== 'JSXIdentifier')) {
+    return false;
+  }
+  if (node.type === 'JSXIdentifier') {
+    // Only capitalised element names refer to variables
+    return !!parent && (
+      (parent.type === 'JSXMemberExpression' && path.name === 'object') ||
+      ((parent.type === 'JSXOpeningElement' || parent.type === 'JSXClosingElement') &&
+        /^[A-Z]/.test(node.name))
+    );
+  }
+  if (!parent) {
+    return true;
+  }
+  switch (parent.type) {
+    case 'MemberExpression':
+      return path.name !== 'property' || parent.computed;
+    case 'Property':
+    case 'MethodDefinition':
+    case 'ClassProperty':
+      return path.name !== 'key' || parent.computed;
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return path.name !== 'label';
+    case 'ImportSpecifier':
+      return path.name !== 'imported';
+    case 'ExportSpecifier':
+      return path.name !== 'exported';
+  }
+  return true;
+}
+
+/**
+ * Returns the scope in which the name of an identifier is looked up.
+ */
+function getLookupScope(path: ast.NodePath): ast.Scope {
+  const scope = path.scope;
+  const parent = path.parent && path.parent.value;
+  if (scope && parent && parent.type === 'FunctionDeclaration' && path.name === 'id') {
+    // Function declarations establish their own scope, but their names are
+    // declared in the enclosing one
+    return getParentScope(scope);
+  }
+  return scope;
+}
+
+function getParentScope(scope: ast.Scope): ast.Scope {
+  return scope.parent;
+}
+
+/**
+ * Returns the node that a declaration is scoped to in the language: the
+ * enclosing block for let, const and class declarations, and the enclosing
+ * function (or program) otherwise.
+ */
+function getDeclaringBlock(path: ast.NodePath, scope: ast.Scope): ast.Node {
+  let p = path;
+  while (p.parent && patternTypes.indexOf(p.parent.value.type) >= 0) {
+    p = p.parent;
+  }
+  const parent = p.parent && p.parent.value;
+  const isBlockScoped = !!parent && (parent.type === 'ClassDeclaration' ||
+    parent.type === 'VariableDeclarator' && p.parent.parent &&
+    p.parent.parent.value.kind !== 'var');
+  if (!isBlockScoped) {
+    return scope.node;
+  }
+  for (let block = p.parent; block; block = block.parent) {
+    if (blockTypes.indexOf(block.value.type) >= 0) {
+      return block.value;
+    }
+  }
+  return scope.node;
+}
+
+/**
+ * Returns true if scope is nested in (but not the same as) outer.
+ */
+function isInnerScope(scope: ast.Scope, outer: ast.Scope): boolean {
+  for (let s = getParentScope(scope); s; s = getParentScope(s)) {
+    if (s.node === outer.node) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Renames a single identifier, expanding shorthand notations that would
+ * otherwise change their meaning.
+ */
+function renameIdentifier(path: ast.NodePath, newName: string) {
+  const node = path.value;
+  const parent = path.parent && path.parent.value;
+  if (parent && parent.type === 'ImportSpecifier' && path.name === 'local') {
+    replaceSpecifier(path.parent, b.importSpecifier(
+      b.identifier((parent.imported || node).name), b.identifier(newName)));
+  } else if (parent && parent.type === 'ExportSpecifier' && path.name === 'local') {
+    replaceSpecifier(path.parent, b.exportSpecifier(
+      b.identifier(newName), b.identifier((parent.exported || node).name)));
+  } else {
+    if (parent && parent.type === 'Property' && parent.shorthand && path.name === 'value') {
+      parent.shorthand = false;
+      if (parent.key === node) {
+        parent.key = b.identifier(node.name);
+      }
+    }
+    node.name = newName;
+  }
+}
+
+/**
+ * Replaces an import or export specifier. Since the imported/exported and the
+ * local name share the same source location, recast has to be told explicitly
+ * to reprint the entire specifier.
+ */
+function replaceSpecifier(path: ast.NodePath, specifier: ast.Node) {
+  Object.defineProperty(specifier, 'original', {
+    value: null,
+    enumerable: false,
+    writable: true
+  });
+  path.replace(specifier);
+}
@@ -0,0 +1,58 @@
+import { SourceFile } from './SourceFile';
+import { ast } from '../deps/bundle';
+import * as js from './Js';
+
+const b = ast.builders;
+
+describe('SourceFile', () => {
+  const code = 'let foo = 1;\nlet bar = 2;\nfoo(bar);\n';
+
+  it('is modified', () => {
+    const file = SourceFile.parse(code, 'foo.js');
+    expect(file.isModified()).toBe(false);
+    expect(file.changedRanges()).toEqual([]);
+    expect(file.diff()).toBe('');
+    file.root.findFirstChildOfType(js.Literal).replace(b.literal(3));
+    expect(file.isModified()).toBe(true);
+    expect(file.format()).toBe(code.replace('1', '3'));
+  });
+
+  it('changed ranges', () => {
+    const file = SourceFile.parse(code);
+    file.root.findFirstChildOfType(js.Literal, l => l.value === 2).replace(b.literal(3));
+    file.root.findFirstChildOfType(js.ExpressionStatement).remove();
+    expect(file.changedRanges()).toEqual([
+      { oldStart: 2, oldLines: 2, newStart: 2, newLines: 1 }
+    ]);
+  });
+
+  it('diff', () => {
+    const file = SourceFile.parse(code, 'src/foo.js');
+    file.root.findFirstChildOfType(js.Literal).replace(b.literal(3));
+    expect(file.diff()).toBe([
+      '--- src/foo.js',
+      '+++ src/foo.js',
+      '@@ -1,3 +1,3 @@',
+      '-let foo = 1;',
+      '+let foo = 3;',
+      ' let bar = 2;',
+      ' foo(bar);',
+      ''
+    ].join('\n'));
+    expect(file.diff({ context: 0, oldFileName: 'a/foo.js', newFileName: 'b/foo.js' })).toBe([
+      '--- a/foo.js',
+      '+++ b/foo.js',
+      '@@ -1 +1 @@',
+      '-let foo = 1;',
+      '+let foo = 3;',
+      ''
+    ].join('\n'));
+  });
+
+  it('format with source map', () => {
+    const file = SourceFile.parse(code, 'src/foo.js');
+    const result = file.formatWithSourceMap();
+    expect(result.code).toBe(code);
+    expect(result.map.sources).toEqual(['src/foo.js']);
+  });
+});
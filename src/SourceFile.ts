@@ -0,0 +1,86 @@
+/**
+ * Keeps the original source of a file alongside the AST parsed from it, so
+ * that changes can be reviewed after a transformation.
+ */
+
+import { JsNode, GenericJsNode, SourceMapOptions, FormattedCode } from './JsNode';
+import { diffRanges, formatUnifiedDiff, DiffRange } from './Diff';
+
+export type SourceFileDiffOptions = {
+  /**
+   * Number of unchanged lines to show around each change. Defaults to 3.
+   */
+  context?: number,
+  /**
+   * Defaults to the file name of the source file.
+   */
+  oldFileName?: string,
+  /**
+   * Defaults to the file name of the source file.
+   */
+  newFileName?: string
+};
+
+export class SourceFile {
+  /**
+   * Parses the source code. The arguments are passed to JsNode.parse().
+   */
+  static parse(source: string, fileName?: string, args?: Object): SourceFile {
+    return new SourceFile(source, JsNode.parse(source, args), fileName);
+  }
+
+  constructor(public source: string, public root: GenericJsNode,
+    public fileName?: string) {}
+
+  /**
+   * Returns the current source code of the AST.
+   */
+  format(): string {
+    return this.root.format();
+  }
+
+  /**
+   * Like format(), but also returns a source map. The name of the original
+   * file defaults to the file name of the source file.
+   */
+  formatWithSourceMap(options: SourceMapOptions = {}): FormattedCode {
+    return this.root.formatWithSourceMap(Object.assign({
+      sourceFileName: this.fileName
+    }, options));
+  }
+
+  /**
+   * Returns true if the AST no longer formats to the original source.
+   */
+  isModified(): boolean {
+    return this.format() !== this.originalSource();
+  }
+
+  /**
+   * Returns the line ranges that differ between the original and the current
+   * source.
+   */
+  changedRanges(): DiffRange[] {
+    return diffRanges(this.originalSource(), this.format());
+  }
+
+  /**
+   * Returns a unified diff between the original and the current source, or an
+   * empty string if nothing changed.
+   */
+  diff(options: SourceFileDiffOptions = {}): string {
+    const fileName = this.fileName || 'source';
+    return formatUnifiedDiff(this.originalSource(), this.format(), {
+      context: options.context,
+      oldFileName: options.oldFileName || fileName,
+      newFileName: options.newFileName || fileName
+    });
+  }
+
+  /**
+   * Returns the original source the way format() would print it.
+   */
+  protected originalSource(): string {
+    return this.source.replace(/\r/g, '');
+  }
+}
@@ -0,0 +1,118 @@
+import { JsNode } from './JsNode';
+import { Template, rewrite } from './Template';
+import * as js from './Js';
+
+describe('Template', () => {
+  it('parse', () => {
+    expect(Template.fromSource('$a == null').node.type).toBe('BinaryExpression');
+    expect(Template.fromSource('let $a = 42;').node.type).toBe('VariableDeclaration');
+    expect(Template.fromSource('{ foo: $value }').node.type).toBe('ObjectExpression');
+    expect(() => Template.fromSource('foo(); bar();')).toThrowError(/exactly one/);
+  });
+
+  it('match with captures', () => {
+    const code = 'this.onClick = this.onClick.bind(this); foo.bar.bind(this);';
+    const matches = JsNode.fromModuleCode(code).match('$obj.$method.bind(this)');
+    expect(matches.length).toBe(2);
+    expect(matches[0].node.format()).toBe('this.onClick.bind(this)');
+    expect(matches[0].get('obj')).toBeInstanceOf(js.ThisExpression);
+    expect(matches[0].get<js.Identifier>('$method').name).toBe('onClick');
+    expect(matches[1].get('obj').format()).toBe('foo');
+    expect(matches[1].names()).toEqual(['obj', 'method']);
+  });
+
+  it('match literals and operators', () => {
+    const code = 'if (a == null) {} if (b === null) {} if (c == 0) {}';
+    const matches = JsNode.fromModuleCode(code).match('$x == null');
+    expect(matches.length).toBe(1);
+    expect(matches[0].get('x').format()).toBe('a');
+  });
+
+  it('match type constraints', () => {
+    const code = 'foo(bar); foo(42); foo(bar.baz);';
+    const root = JsNode.fromModuleCode(code);
+    expect(root.match('foo($x)').length).toBe(3);
+    const matches = root.match('foo($x:Identifier)');
+    expect(matches.length).toBe(1);
+    expect(matches[0].get('x')).toBeInstanceOf(js.Identifier);
+    expect(root.match('foo($x:Literal)')[0].get('x').format()).toBe('42');
+    expect(root.match('{ a:b }').length).toBe(0);
+  });
+
+  it('match lists', () => {
+    const code = 'foo(); foo(1); foo(1, 2, 3); bar(1, 2);';
+    const root = JsNode.fromModuleCode(code);
+    const matches = root.match('foo($$args)');
+    expect(matches.length).toBe(3);
+    expect(matches[0].getList('args').size()).toBe(0);
+    expect(matches[2].getList('$$args').map(n => n.format())).toEqual(['1', '2', '3']);
+    const tail = root.match('$f(1, $$rest)');
+    expect(tail.length).toBe(3);
+    expect(tail[2].get('f').format()).toBe('bar');
+    expect(tail[2].getList('rest').size()).toBe(1);
+    expect(() => tail[0].get('rest')).toThrowError(/captured a list/);
+  });
+
+  it('match statements', () => {
+    const code = 'function foo() { let a = 1; return a; } function bar() {}';
+    const matches = JsNode
+      .fromModuleCode(code)
+      .match('function $name() { $$body; return $result; }');
+    expect(matches.length).toBe(1);
+    expect(matches[0].get('name').format()).toBe('foo');
+    expect(matches[0].getList('body').first()).toBeInstanceOf(js.VariableDeclaration);
+    expect(matches[0].get('result').format()).toBe('a');
+  });
+
+  it('match repeated placeholders', () => {
+    const code = 'a = a + 1; a = b + 1; x.y = x.y + 1;';
+    const matches = JsNode.fromModuleCode(code).match('$v = $v + 1');
+    expect(matches.map(m => m.node.format())).toEqual(['a = a + 1', 'x.y = x.y + 1']);
+  });
+
+  it('captures are attached to the tree', () => {
+    const root = JsNode.fromModuleCode('class Foo { bar() { this.baz(); } }');
+    const match = root.match('this.$method()')[0];
+    expect(match.get('method').findParentOfType(js.ClassDeclaration).name).toBe('Foo');
+  });
+});
+
+describe('RewriteRule', () => {
+  it('rewrite expressions', () => {
+    const root = JsNode.fromModuleCode('if (foo == null) {}\nlet bar = baz.qux == null;');
+    const count = rewrite('$a == null', '$a === null || $a === undefined').apply(root);
+    expect(count).toBe(2);
+    expect(root.format()).toBe(
+      'if (foo === null || foo === undefined) {}\n' +
+      'let bar = baz.qux === null || baz.qux === undefined;');
+  });
+
+  it('keep formatting of captured nodes', () => {
+    const root = JsNode.fromModuleCode('foo(function () {\n  return  1 ;\n});');
+    expect(root.rewrite('foo($f)', 'bar($f, true)')).toBe(1);
+    expect(root.format()).toBe('bar(function () {\n  return  1 ;\n}, true);');
+  });
+
+  it('rewrite lists and statements', () => {
+    const root = JsNode.fromModuleCode('var a = 1;\nfoo(1, 2, 3);');
+    expect(root.rewrite('var $x = $y;', 'const $x = $y;')).toBe(1);
+    expect(root.rewrite('foo($$args)', 'bar(0, $$args)')).toBe(1);
+    expect(root.format()).toBe('const a = 1;\nbar(0, 1, 2, 3);');
+  });
+
+  it('rewrite the root node', () => {
+    const node = JsNode.fromExpressionStatement('a == null');
+    expect(node.rewrite('$a == null', '!$a')).toBe(1);
+    expect(node.format()).toBe('!a');
+  });
+
+  it('does not rewrite its own output', () => {
+    const root = JsNode.fromModuleCode('foo(x);');
+    expect(root.rewrite('foo($a)', 'foo(foo($a))')).toBe(1);
+    expect(root.format()).toBe('foo(foo(x));');
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(() => rewrite('foo($a)', 'bar($b)')).toThrowError(/not in the source: b/);
+  });
+});
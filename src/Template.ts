@@ -0,0 +1,468 @@
+/**
+ * Structural matching of code templates against JsNode trees.
+ *
+ * A template is a piece of JS source that contains placeholders:
+ *
+ *   $obj.$method.bind(this)
+ *
+ * Placeholders start with "$" and match any node. They can be constrained to
+ * a type by appending the type name, e.g. "$x:Identifier". Placeholders
+ * starting with "$$" match any number of nodes in a list, e.g. the arguments
+ * in "foo($$args)" or the statements in "function $name() { $$body; }". A
+ * placeholder that occurs more than once only matches structurally equal
+ * nodes.
+ *
+ * Templates that consist of a single expression statement match the
+ * expression, so "$a == null" also matches inside of "if (foo == null) {}".
+ *
+ * Rewrite rules combine a source and a target template:
+ *
+ *   rewrite('$a == null', '$a === null || $a === undefined').apply(root)
+ *
+ * Captured nodes are moved into the target as they are, so recast will print
+ * them using their original formatting.
+ */
+
+import { ast, recast } from '../deps/bundle';
+import { JsNode, JsNodeList, GenericJsNode } from './JsNode';
+import { isTypeName, matchesTypeName } from './Query';
+import { isNode, valuesEqual, nodesEqual } from './Equality';
+import { cloneNode } from './Clone';
+
+const visit = recast.visit;
+
+const placeholderExp = /\$(\$?[A-Za-z_][\w]*)(:([A-Za-z_]\w*))?/g;
+
+/**
+ * Fields that never take part in structural comparisons.
+ */
+const ignoredFields = ['type', 'loc', 'comments', 'original'];
+
+const b = ast.builders;
+
+export type TemplateCapture = ast.NodePath | ast.NodePath[];
+
+export type TemplateCaptures = {
+  [name: string]: TemplateCapture
+};
+
+/**
+ * The result of successfully matching a template against a node.
+ */
+export class TemplateMatch {
+  constructor(public node: GenericJsNode, protected captures: TemplateCaptures) {}
+
+  /**
+   * Returns the names of all captured placeholders, without the leading "$".
+   */
+  names(): string[] {
+    return Object.keys(this.captures);
+  }
+
+  /**
+   * Returns the node captured by a placeholder. The leading "$" is optional.
+   */
+  get<T extends GenericJsNode>(name: string): T {
+    const capture = this.captures[stripPlaceholderPrefix(name)];
+    if (capture instanceof Array) {
+      throw new Error(`Placeholder "${name}" captured a list; use getList()`);
+    }
+    if (capture) {
+      return JsNode.fromPath<T>(capture);
+    }
+  }
+
+  /**
+   * Returns the nodes captured by a list placeholder. The leading "$$" is
+   * optional.
+   */
+  getList<T extends GenericJsNode>(name: string): JsNodeList<T> {
+    const capture = this.captures[stripPlaceholderPrefix(name)];
+    if (capture && !(capture instanceof Array)) {
+      throw new Error(`Placeholder "${name}" captured a single node; use get()`);
+    }
+    if (capture) {
+      return JsNodeList.fromPaths((capture as ast.NodePath[]).slice(0));
+    }
+  }
+
+  /**
+   * Returns the raw paths for all captures.
+   */
+  paths(): TemplateCaptures {
+    return this.captures;
+  }
+}
+
+/**
+ * A parsed code template.
+ */
+export class Template {
+  /**
+   * Type constraints, keyed by placeholder name.
+   */
+  protected constraints: { [name: string]: string } = {};
+
+  /**
+   * The template's AST, with all type constraints removed from the
+   * placeholders.
+   */
+  protected _node: ast.Node;
+
+  static fromSource(source: string, args?: Object): Template {
+    return new Template(source, args);
+  }
+
+  /**
+   * Returns the argument if it already is a template, or parses it otherwise.
+   */
+  static from(template: (string | Template), args?: Object): Template {
+    return (template instanceof Template) ? template : new Template(template, args);
+  }
+
+  constructor(public source: string, args?: Object) {
+    const code = source.replace(placeholderExp, (match, name, constraint, typeName) => {
+      if (!constraint || !isTypeName(typeName)) {
+        // Could be part of an object literal or a conditional expression
+        return match;
+      }
+      this.constraints[name.replace(/^\$/, '')] = typeName;
+      return '$' + name;
+    });
+    this._node = parseTemplate(code, args);
+  }
+
+  get node(): ast.Node {
+    return this._node;
+  }
+
+  /**
+   * Returns the names of all placeholders in the template, without the
+   * leading "$" or "$$".
+   */
+  placeholders(): string[] {
+    const names: string[] = [];
+    visit(this._node, {
+      visitIdentifier: function (p: ast.NodePath) {
+        const placeholder = getPlaceholder(p.value);
+        if (placeholder && names.indexOf(stripPlaceholderPrefix(placeholder)) < 0) {
+          names.push(stripPlaceholderPrefix(placeholder));
+        }
+        this.traverse(p);
+      }
+    });
+    return names;
+  }
+
+  /**
+   * Matches the template against the node at the given path. Returns
+   * undefined if the node doesn't match.
+   */
+  matchPath(path: ast.NodePath): TemplateMatch {
+    const captures: TemplateCaptures = {};
+    if (this.matchNode(this._node, path, captures)) {
+      return new TemplateMatch(JsNode.fromPath(path), captures);
+    }
+  }
+
+  /**
+   * Matches the template against a node and all of its descendants. Matches
+   * are returned in document order.
+   */
+  matchAll(node: GenericJsNode): TemplateMatch[] {
+    const matches: TemplateMatch[] = [];
+    const self = this;
+    visit(node.path, {
+      visitNode: function (p: ast.NodePath) {
+        const match = self.matchPath(p);
+        if (match) {
+          matches.push(match);
+        }
+        this.traverse(p);
+      }
+    });
+    return matches;
+  }
+
+  protected matchNode(template: ast.Node, path: ast.NodePath,
+    captures: TemplateCaptures): boolean {
+
+    const placeholder = getPlaceholder(template);
+    if (placeholder && !isListPlaceholder(placeholder)) {
+      return this.capture(placeholder, path, captures);
+    }
+    const node = path.value;
+    if (!isNode(node) || node.type !== template.type) {
+      return false;
+    }
+    return ast.getFieldNames(template)
+      .filter(name => ignoredFields.indexOf(name) < 0)
+      .every(name => this.matchValue(
+        ast.getFieldValue(template, name), path.get(name), captures));
+  }
+
+  protected matchValue(template: any, path: ast.NodePath,
+    captures: TemplateCaptures): boolean {
+
+    if (template instanceof Array) {
+      return (path.value instanceof Array) &&
+        this.matchList(template, 0, path, 0, captures);
+    }
+    if (isNode(template)) {
+      return this.matchNode(template, path, captures);
+    }
+    return valuesEqual(template, path.value);
+  }
+
+  /**
+   * Matches a list of template nodes against the elements of a list path,
+   * starting at the given indices. Backtracks over the possible lengths of
+   * list placeholders.
+   */
+  protected matchList(templates: any[], templateIndex: number,
+    path: ast.NodePath, index: number, captures: TemplateCaptures): boolean {
+
+    const length = path.value.length;
+    if (templateIndex === templates.length) {
+      return index === length;
+    }
+    const template = templates[templateIndex];
+    const placeholder = getPlaceholder(template);
+    if (placeholder && isListPlaceholder(placeholder)) {
+      for (let end = index; end <= length; end++) {
+        const saved = copyCaptures(captures);
+        const paths = [];
+        for (let i = index; i < end; i++) {
+          paths.push(path.get(i));
+        }
+        if (this.captureList(placeholder, paths, captures) &&
+          this.matchList(templates, templateIndex + 1, path, end, captures)) {
+          return true;
+        }
+        restoreCaptures(captures, saved);
+      }
+      return false;
+    }
+    if (index >= length) {
+      return false;
+    }
+    const saved = copyCaptures(captures);
+    if (this.matchValue(template, path.get(index), captures) &&
+      this.matchList(templates, templateIndex + 1, path, index + 1, captures)) {
+      return true;
+    }
+    restoreCaptures(captures, saved);
+    return false;
+  }
+
+  protected capture(placeholder: string, path: ast.NodePath,
+    captures: TemplateCaptures): boolean {
+
+    const name = stripPlaceholderPrefix(placeholder);
+    if (!isNode(path.value) || !this.checkConstraint(name, path)) {
+      return false;
+    }
+    const existing = captures[name];
+    if (existing) {
+      return !(existing instanceof Array) && nodesEqual(existing.value, path.value);
+    }
+    captures[name] = path;
+    return true;
+  }
+
+  protected captureList(placeholder: string, paths: ast.NodePath[],
+    captures: TemplateCaptures): boolean {
+
+    const name = stripPlaceholderPrefix(placeholder);
+    if (!paths.every(p => isNode(p.value) && this.checkConstraint(name, p))) {
+      return false;
+    }
+    const existing = captures[name];
+    if (existing) {
+      return (existing instanceof Array) &&
+        existing.length === paths.length &&
+        existing.every((p, i) => nodesEqual(p.value, paths[i].value));
+    }
+    captures[name] = paths;
+    return true;
+  }
+
+  protected checkConstraint(name: string, path: ast.NodePath): boolean {
+    const typeName = this.constraints[name];
+    return !typeName || matchesTypeName(path, typeName);
+  }
+}
+
+/**
+ * Replaces all code matching a source template with a target template.
+ */
+export class RewriteRule {
+  source: Template;
+  target: Template;
+
+  constructor(source: (string | Template), target: (string | Template), args?: Object) {
+    this.source = Template.from(source, args);
+    this.target = Template.from(target, args);
+    const captured = this.source.placeholders();
+    const missing = this.target.placeholders().filter(name => captured.indexOf(name) < 0);
+    if (missing.length > 0) {
+      throw new Error(
+        `Placeholders used in the target but not in the source: ${missing.join(', ')}`);
+    }
+  }
+
+  /**
+   * Rewrites all matches in the sub-tree of a node, including the node itself.
+   * Nodes created by a rewrite are not matched again.
+   *
+   * Returns the number of rewritten sites.
+   */
+  apply(node: GenericJsNode): number {
+    let count = 0;
+    const self = this;
+    visit(node.path, {
+      visitNode: function (p: ast.NodePath) {
+        const match = self.source.matchPath(p);
+        if (!match) {
+          this.traverse(p);
+          return;
+        }
+        const replacement = self.build(match, p.value);
+        // Replace through the node itself if it's the root, so that it keeps
+        // pointing to the rewritten AST
+        (p === node.path ? node : JsNode.fromPath(p)).replace(replacement);
+        count++;
+        return false;
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Creates the AST for the target template, substituting placeholders with
+   * the captured nodes.
+   */
+  protected build(match: TemplateMatch, matchedNode: ast.Node): ast.Node {
+    const used: ast.Node[] = [];
+    const node = substitute(this.target.node, match.paths(), used);
+    if (ast.namedTypes.Statement.check(matchedNode) && !ast.namedTypes.Statement.check(node)) {
+      return b.expressionStatement(node);
+    }
+    return node;
+  }
+}
+
+/**
+ * Creates a rewrite rule from a source and a target template.
+ */
+export function rewrite(source: (string | Template), target: (string | Template),
+  args?: Object): RewriteRule {
+
+  return new RewriteRule(source, target, args);
+}
+
+/**
+ * Copies a template node, replacing placeholders with captured nodes. The
+ * first use of a captured node moves the node itself; further uses get a copy
+ * that still links to the original source.
+ */
+function substitute(template: any, captures: TemplateCaptures, used: ast.Node[]): any {
+  if (template instanceof Array) {
+    const result = [];
+    template.forEach(element => {
+      const placeholder = getPlaceholder(element);
+      const capture = placeholder && captures[stripPlaceholderPrefix(placeholder)];
+      if (capture instanceof Array) {
+        capture.forEach(p => result.push(useCapturedNode(p.value, used)));
+      } else {
+        result.push(substitute(element, captures, used));
+      }
+    });
+    return result;
+  }
+  if (!isNode(template)) {
+    return template;
+  }
+  const placeholder = getPlaceholder(template);
+  const capture = placeholder && captures[stripPlaceholderPrefix(placeholder)];
+  if (capture && !(capture instanceof Array)) {
+    const captured = useCapturedNode(capture.value, used);
+    if (template.type === 'ExpressionStatement' &&
+      !ast.namedTypes.Statement.check(captured)) {
+      return b.expressionStatement(captured);
+    }
+    return captured;
+  }
+  const copy: ast.Node = { type: template.type };
+  Object.keys(template)
+    .filter(key => key !== 'loc' && key !== 'type')
+    .forEach(key => copy[key] = substitute(template[key], captures, used));
+  return copy;
+}
+
+function useCapturedNode(node: ast.Node, used: ast.Node[]): ast.Node {
+  if (used.indexOf(node) < 0) {
+    used.push(node);
+    return node;
+  }
+  return cloneNode(node, { keepLocations: true });
+}
+
+/**
+ * Parses the template source and returns the AST node that should be matched.
+ */
+function parseTemplate(code: string, args?: Object): ast.Node {
+  const statements = JsNode.fromCode(code, args);
+  if (statements.size() !== 1) {
+    throw new Error(`Template must contain exactly one statement or expression: ${code}`);
+  }
+  const statement = statements.first().node;
+  if (statement.type === 'ExpressionStatement') {
+    return statement['expression'];
+  }
+  if (statement.type === 'BlockStatement' && /^\s*\{/.test(code)) {
+    // Most likely an object expression
+    try {
+      return JsNode.fromExpressionStatement(`(${code})`, args).node;
+    } catch (e) {
+      // It's a block after all
+    }
+  }
+  return statement;
+}
+
+/**
+ * Returns the placeholder name (including "$" or "$$") if the node is a
+ * placeholder. Placeholders can be identifiers or expression statements that
+ * only contain an identifier.
+ */
+function getPlaceholder(node: ast.Node): string {
+  if (!isNode(node)) {
+    return;
+  }
+  if (node.type === 'ExpressionStatement') {
+    return getPlaceholder(node['expression']);
+  }
+  if (node.type === 'Identifier' && /^\$/.test(node['name'])) {
+    return node['name'];
+  }
+}
+
+function isListPlaceholder(placeholder: string): boolean {
+  return /^\$\$/.test(placeholder);
+}
+
+function stripPlaceholderPrefix(name: string): string {
+  return name.replace(/^\$\$?/, '');
+}
+
+function copyCaptures(captures: TemplateCaptures): TemplateCaptures {
+  const copy: TemplateCaptures = {};
+  Object.keys(captures).forEach(key => copy[key] = captures[key]);
+  return copy;
+}
+
+function restoreCaptures(captures: TemplateCaptures, saved: TemplateCaptures) {
+  Object.keys(captures).forEach(key => delete captures[key]);
+  Object.keys(saved).forEach(key => captures[key] = saved[key]);
+}
@@ -0,0 +1,133 @@
+import { JsNode } from './JsNode';
+import { ast } from '../deps/bundle';
+import * as js from './Js';
+
+const b = ast.builders;
+
+describe('Transaction', () => {
+  const code = 'let foo = 1;\nlet bar = 2;\nfoo(bar);';
+
+  it('commit', () => {
+    const root = JsNode.fromModuleCode(code);
+    const committed = root.transaction(tx => {
+      root.findFirstChildOfType(js.Literal).replace(b.literal(3));
+    });
+    expect(committed).toBe(true);
+    expect(root.format()).toBe(code.replace('1', '3'));
+  });
+
+  it('roll back on error', () => {
+    const root = JsNode.fromModuleCode(code);
+    const program = root.findFirstChildOfType(js.Program);
+    expect(() => root.transaction(tx => {
+      root.findFirstChildOfType(js.Literal).replace(b.literal(3));
+      program.children().first().insertAfter(JsNode.fromCode('let baz;').first());
+      program.children().last().remove();
+      program.append(JsNode.fromCode('baz();').first());
+      throw new Error('failed');
+    })).toThrowError(/failed/);
+    expect(root.format()).toBe(code);
+  });
+
+  it('abort', () => {
+    const root = JsNode.fromModuleCode(code);
+    const aborted = root.transaction(tx => {
+      root.findChildrenOfType(js.VariableDeclaration).removeAll();
+      tx.abort();
+      throw new Error('unreachable');
+    });
+    expect(aborted).toBe(false);
+    expect(root.format()).toBe(code);
+  });
+
+  it('nodes remain usable after a rollback', () => {
+    const root = JsNode.fromModuleCode(code);
+    const program = root.findFirstChildOfType(js.Program);
+    const call = root.findFirstChildOfType(js.ExpressionStatement);
+    root.transaction(tx => {
+      program.prepend(JsNode.fromCode('let baz;').first());
+      tx.abort();
+    });
+    call.remove();
+    expect(root.format()).toBe('let foo = 1;\nlet bar = 2;');
+  });
+
+  it('roll back renames', () => {
+    const root = JsNode.fromModuleCode(code);
+    const findFoo = () => root.findFirstChildOfType(js.Identifier, id => id.name === 'foo');
+    root.transaction(tx => {
+      findFoo().rename('baz');
+      tx.abort();
+    });
+    expect(root.format()).toBe(code);
+    expect(findFoo().references().size()).toBe(1);
+  });
+
+  it('roll back replacing the root', () => {
+    const root = JsNode.fromModuleCode(code);
+    const program = root.findFirstChildOfType(js.Program);
+    root.transaction(tx => {
+      program.replace(b.program([]));
+      root.replace(b.file(b.program([])));
+      tx.abort();
+    });
+    expect(root.format()).toBe(code);
+  });
+
+  it('savepoints', () => {
+    const root = JsNode.fromModuleCode(code);
+    const literals = root.findChildrenOfType(js.Literal);
+    root.transaction(tx => {
+      literals.at(0).replace(b.literal(3));
+      expect(tx.savepoint(sp => {
+        literals.at(1).replace(b.literal(4));
+        sp.abort();
+      })).toBe(false);
+      expect(() => tx.savepoint(sp => {
+        literals.at(1).replace(b.literal(5));
+        throw new Error('failed');
+      })).toThrowError(/failed/);
+      expect(tx.savepoint(sp => {
+        literals.at(1).replace(b.literal(6));
+      })).toBe(true);
+    });
+    expect(root.format()).toBe(code.replace('1', '3').replace('2', '6'));
+  });
+
+  it('abort from within a savepoint', () => {
+    const root = JsNode.fromModuleCode(code);
+    const literals = root.findChildrenOfType(js.Literal);
+    const aborted = root.transaction(tx => {
+      literals.at(0).replace(b.literal(3));
+      tx.savepoint(sp => {
+        literals.at(1).replace(b.literal(4));
+        tx.abort();
+      });
+    });
+    expect(aborted).toBe(false);
+    expect(root.format()).toBe(code);
+  });
+
+  it('deeply nested trees', () => {
+    const root = JsNode.fromModuleCode('x;');
+    let expression = b.identifier('x');
+    for (let i = 0; i < 50000; i++) {
+      expression = b.unaryExpression('!', expression);
+    }
+    const statement = root.findFirstChildOfType(js.ExpressionStatement);
+    statement.path.get('expression').replace(expression);
+    const aborted = root.transaction(tx => {
+      statement.path.get('expression').replace(b.identifier('y'));
+      tx.abort();
+    });
+    expect(aborted).toBe(false);
+    expect(statement.node.expression).toBe(expression);
+  });
+
+  it('abort outside of a transaction', () => {
+    const root = JsNode.fromModuleCode(code);
+    let transaction;
+    root.transaction(tx => transaction = tx);
+    expect(() => transaction.abort()).toThrowError(/not active/);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Transactions group a sequence of AST edits, so that they can be undone as a
+ * whole:
+ *
+ *   root.transaction(tx => {
+ *     node.replace(...);
+ *     if (!isValid(root)) {
+ *       tx.abort();
+ *     }
+ *   });
+ *
+ * A transaction records the state of the entire tree when it starts, which
+ * covers all mutations regardless of whether they were made through JsNode
+ * methods or by modifying AST nodes directly. Rolling back restores the
+ * original node objects in place, so existing references to nodes and paths
+ * stay valid. Recording takes a shallow copy of every node, but skips source
+ * locations, tokens and the original nodes kept by recast.
+ */
+
+import { ast } from '../deps/bundle';
+import { GenericJsNode } from './JsNode';
+
+export type TransactionCallback = (tx: Transaction) => any;
+
+type ObjectState = {
+  object: Object,
+  fields: { [key: string]: any }
+};
+
+type PathState = {
+  path: ast.NodePath,
+  value: any,
+  name: any,
+  childCache: { [key: string]: ast.NodePath }
+};
+
+// Source locations, tokens and the original nodes are shared with the original
+// source and never modified by edits, so there is no need to record them.
+const ignoredFields = ['loc', 'tokens', 'original'];
+
+/**
+ * Thrown by Transaction.abort() to unwind the callback. Deliberately not an
+ * Error, so that it can be told apart reliably.
+ */
+class TransactionAbort {
+  constructor(public transaction: Transaction) {}
+}
+
+export class Transaction {
+  private _objects: ObjectState[] = [];
+  private _paths: PathState[] = [];
+  protected _nodePath: ast.NodePath;
+  protected _active = false;
+
+  /**
+   * Runs the callback in a new transaction on the tree that contains the
+   * given node. Returns true if the transaction was committed and false if it
+   * was aborted. All other errors are rethrown after rolling back.
+   */
+  static run(node: GenericJsNode, callback: TransactionCallback): boolean {
+    return new Transaction(node).run(callback);
+  }
+
+  constructor(protected _node: GenericJsNode) {}
+
+  /**
+   * Returns true while the callback of this transaction is running.
+   */
+  isActive(): boolean {
+    return this._active;
+  }
+
+  /**
+   * Rolls back all changes made since the transaction started and leaves the
+   * callback. Must be called from within the callback.
+   */
+  abort(): void {
+    if (!this._active) {
+      throw new Error('Can not abort a transaction that is not active');
+    }
+    throw new TransactionAbort(this);
+  }
+
+  /**
+   * Runs the callback in a nested transaction. If it throws or is aborted,
+   * only the changes made within the savepoint are rolled back. Returns true
+   * if the savepoint was committed.
+   */
+  savepoint(callback: TransactionCallback): boolean {
+    if (!this._active) {
+      throw new Error('Can not create a savepoint in a transaction that is not active');
+    }
+    return new Transaction(this._node).run(callback);
+  }
+
+  protected run(callback: TransactionCallback): boolean {
+    this.record();
+    this._active = true;
+    try {
+      callback(this);
+      return true;
+    } catch (e) {
+      this.rollback();
+      if (e instanceof TransactionAbort && e.transaction === this) {
+        return false;
+      }
+      throw e;
+    } finally {
+      this._active = false;
+    }
+  }
+
+  protected record() {
+    this._nodePath = this._node.path;
+    let rootPath = this._nodePath;
+    while (rootPath.parentPath) {
+      rootPath = rootPath.parentPath;
+    }
+    this.recordObjects(rootPath.value);
+    this.recordPaths(rootPath);
+  }
+
+  /**
+   * Records the fields of all objects reachable from the root. Uses an
+   * explicit stack, since deeply nested trees would overflow the call stack.
+   */
+  protected recordObjects(root: any) {
+    const seen = new Set<Object>();
+    const stack = [root];
+    while (stack.length > 0) {
+      const object = stack.pop();
+      if (object === null || typeof object !== 'object' || seen.has(object)) {
+        continue;
+      }
+      seen.add(object);
+      const fields = {};
+      Object.keys(object).forEach(key => {
+        if (ignoredFields.indexOf(key) < 0) {
+          fields[key] = object[key];
+          stack.push(object[key]);
+        }
+      });
+      this._objects.push({ object, fields });
+    }
+  }
+
+  /**
+   * Paths cache their children and get renamed when siblings are inserted or
+   * removed, so they need to be restored as well.
+   */
+  protected recordPaths(root: ast.NodePath) {
+    const stack = [root];
+    while (stack.length > 0) {
+      const path = stack.pop();
+      const cache = path['__childCache'];
+      const childCache = Object.create(null);
+      if (cache) {
+        Object.keys(cache).forEach(key => {
+          childCache[key] = cache[key];
+          stack.push(cache[key]);
+        });
+      }
+      this._paths.push({ path, value: path.value, name: path.name, childCache });
+    }
+  }
+
+  protected rollback() {
+    this._objects.forEach(state => {
+      const object = state.object;
+      if (Array.isArray(object)) {
+        object.length = 0;
+      }
+      Object.keys(object).forEach(key => {
+        if (ignoredFields.indexOf(key) < 0 && !state.fields.hasOwnProperty(key)) {
+          delete object[key];
+        }
+      });
+      Object.keys(state.fields).forEach(key => object[key] = state.fields[key]);
+    });
+    this._paths.forEach(state => {
+      const path: any = state.path;
+      path.value = state.value;
+      path.name = state.name;
+      path.__childCache = state.childCache;
+      // Drop lazily computed properties of NodePath, since they may refer to
+      // nodes that were added during the transaction
+      delete path.node;
+      delete path.parent;
+      delete path.scope;
+    });
+    // Replacing a node without a parent creates a new path
+    this._node.path = this._nodePath;
+  }
+}